@@ -1,32 +1,203 @@
 // src/server/messagingClient.ts
 import * as net from "net";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
 import * as readline from "readline";
-import { Message, KeyPair } from "./types";
-import { getTimestamp } from "./utils/timestamp";
 import {
-  generateKeyPair,
+  AuthChallenge,
+  ClientSettings,
+  FileOffer,
+  Frame,
+  FrameBuffer,
+  IncomingFile,
+  OutgoingFile,
+  Message,
+  KeyPair,
+  GroupMember,
+  GroupCiphertext,
+  DirectCiphertext,
+  EncryptedData,
+  PresenceState,
+  RekeyPayload,
+  SentMessage,
+  RoomKeys,
+  SecureFrame,
+  SessionParameters,
+  SignedContent,
+  SigningKeyPair,
+} from "./types";
+import { getTimestamp, formatRetryAfter } from "./utils/timestamp";
+import { isValidUsername, USERNAME_RULES } from "./utils/username";
+import {
   encryptMessage,
   decryptMessage,
-  decryptAESKey,
+  generateDHKeyPair,
+  computeSharedSecret,
+  deriveSessionKeys,
+  generateGroupKey,
+  wrapGroupKey,
+  unwrapGroupKey,
+  secureEraseKey,
+  getAssociatedData,
+  encryptChunk,
+  decryptChunk,
 } from "./utils/encryption";
+import { logSecurityEvent } from "./utils/securityLog";
+import {
+  loadOrCreateSigningKey,
+  loadOrCreateKeyPair,
+  getKeyLoginData,
+  signKeyLogin,
+  getSignedData,
+  getKeyBindingData,
+  getGroupKeySignedData,
+  signData,
+  verifySignature,
+} from "./utils/identity";
+import { lookupKnownUser, rememberUser } from "./utils/knownUsers";
+import {
+  answerAuthChallenge,
+  createPasswordVerifier,
+  verifyServerSignature,
+} from "./utils/password";
 import { isServerAvailable, createConnection } from "./utils/connection";
+import {
+  getServerKey,
+  getKeyFingerprint,
+  lookupKnownServer,
+  rememberServer,
+  verifyKeyExchangeSignature,
+} from "./utils/knownServers";
+import {
+  FILE_CHUNK_SIZE,
+  hashFile,
+  readFileChunk,
+  isSafeFileName,
+  getDownloadPath,
+  formatFileSize,
+} from "./utils/fileTransfer";
+import { loadClientSettings } from "./utils/clientConfig";
+import {
+  createFrameBuffer,
+  appendFrameData,
+  readFrame,
+  encodeBinaryFrame,
+  decodeBinaryFrame,
+} from "./utils/framing";
+import {
+  PROTOCOL_VERSION,
+  CIPHER_SUITES,
+  CLIENT_FEATURES,
+  readServerHello,
+  describeSession,
+} from "./utils/protocol";
 import {
   createReadlineInterface,
   promptUser,
   setupLineHandler,
+  setupKeypressHandler,
   clearCurrentLine,
   displayMessagePrompt,
 } from "./utils/prompt";
 
+// Number of older room key epochs kept around to decrypt messages still in flight
+const GROUP_KEY_RETENTION = 2;
+// Commands handled by the client itself, listed alongside the server's in /help.
+// Any other slash command is forwarded to the server as typed
+const CLIENT_COMMANDS: [string, string][] = [
+  ["/me <action>", "Send an action to the active room"],
+  ["/msg <username> <message>", "Send a direct message"],
+  ["/r <message>", "Reply to the last direct message"],
+  ["/register", "Protect your name with a password"],
+  ["/login <username>", "Log in to a registered account"],
+  ["/passwd", "Change your account password"],
+  ["/edit <new text>", "Replace the text of your last message"],
+  [
+    "/delete [username]",
+    "Delete your last message, or (moderators) a user's last message in the room",
+  ],
+  ["/send <#room|username> <path>", "Send a file"],
+  ["/accept [id]", "Accept a file offer (the latest one by default)"],
+  ["/decline [id]", "Decline a file offer (the latest one by default)"],
+  ["/sent", "Show whether your recent messages were delivered and read"],
+  ["/receipts on|off", "Choose whether to send read receipts"],
+  ["/ping", "Show the round-trip time to the server"],
+  ["/rekey", "Rotate the session keys"],
+];
+// Mark the user away after this long without a key press
+const IDLE_AWAY_AFTER = 10 * 60 * 1000;
+// Send at most one typing notification this often
+const TYPING_NOTIFY_INTERVAL = 3000;
+// Forget that someone is typing this long after their last notification
+const TYPING_DISPLAY_TIME = 5000;
+// How many of our own chat messages are tracked for /sent
+const MAX_SENT_MESSAGES = 50;
+// How often we reconnect on our own when the server is busy or rate-limiting us
+const MAX_CONNECT_RETRIES = 3;
+// How long the server has to answer our hello
+const HELLO_TIMEOUT = 10000;
+// Frames the server may send in plaintext, before the session keys exist
+const HANDSHAKE_FRAME_TYPES: Message["type"][] = [
+  "hello",
+  "publicKey",
+  "usernameResult",
+  "error",
+];
+
 export class SecureMessagingClient {
   private socket: net.Socket | null = null; // Socket to communicate with the server
   private rl: readline.Interface; // Readline interface to handle user input
   private username: string = ""; // The username of the client
-  private keyPair: KeyPair; // RSA key pair for encryption
-  private sharedSecret: Buffer | null = null; // Shared AES key for encrypting messages
-  private buffer: string = ""; // Buffer to store incoming data until it's complete
+  private keyPair: KeyPair; // RSA key pair for encryption, also used for public-key login
+  private signingKey: SigningKeyPair; // Ed25519 key pair for signing our own messages
+  private ephemeralKeyPair: {
+    privateKey: crypto.KeyObject;
+    publicKey: string;
+  } | null = null; // X25519 key pair for this connection's handshake only
+  private sendKey: Buffer | null = null; // AES key for messages to the server
+  private receiveKey: Buffer | null = null; // AES key for messages from the server
+  private previousReceiveKey: Buffer | null = null; // Old receive key, kept until the server has switched over
+  private keyEpoch: number = 0; // Session key generation, bumped on every rekey
+  private sendSeq: number = 0; // Sequence number of the last encrypted frame sent
+  private receiveSeq: number = 0; // Sequence number of the last encrypted frame accepted
+  private pendingRekey: {
+    privateKey: crypto.KeyObject;
+    publicKey: string;
+  } | null = null; // Our half of a rekey we started
+  private rooms: Map<string, RoomKeys> = new Map(); // Room keys for each joined room, for end-to-end encryption
+  private activeRoom: string = ""; // Room that typed messages are sent to
+  private lastDirectSender: string = ""; // Who sent us the last direct message, for /r
+  private pendingKeyRequests: Map<
+    string,
+    { send: (publicKey: string) => void; cancel?: () => void }[]
+  > = new Map(); // Sends waiting for a user's public key, by lower-cased name
+  private presence: PresenceState = "online"; // Our presence as last confirmed by the server
+  private autoAway: boolean = false; // Whether we marked ourselves away for being idle
+  private idleTimer: NodeJS.Timeout | null = null; // Fires when the user has been idle too long
+  private lastTypingSentAt: number = 0; // When we last told the room we are typing
+  private typingUsers: Map<string, NodeJS.Timeout> = new Map(); // Users shown as typing, by room and name
+  private enteringPassword: boolean = false; // Keys typed now are a password, not a message
+  private sentMessages: Map<string, SentMessage> = new Map(); // Our recent chat messages by client ID
+  private sendReadReceipts: boolean = true; // Whether we tell senders we read their messages
+  private heldReadReceipts: string[] = []; // Read receipts held back while we are away
+  private lastMessageIds: Map<string, string> = new Map(); // Last message ID per room and sender, for /delete
+  private incomingFiles: Map<string, IncomingFile> = new Map(); // Files offered to us, by transfer ID
+  private outgoingFiles: Map<string, OutgoingFile> = new Map(); // Files we are sending, by transfer ID
+  private settings: ClientSettings; // Settings from the client config file
+  private lastReceivedAt: number = 0; // When anything last arrived from the server (ms since epoch)
+  private heartbeatTimer: NodeJS.Timeout | null = null; // Pings the server and checks it is still there
+  private helloTimer: NodeJS.Timeout | null = null; // Gives up if the server never answers our hello
+  private pendingPings: Map<string, { sentAt: number; show: boolean }> =
+    new Map(); // Pings waiting for a pong, by ID
+  private serverFingerprint: string = ""; // Fingerprint of the verified server identity key
+  private expectedServerSignature: string | null = null; // Proof the server must send back after a password login
+  private frameBuffer: FrameBuffer | null = null; // Incoming data until it forms whole frames
+  private binaryFraming: boolean = false; // Whether the server agreed to length-prefixed binary frames
+  private session: SessionParameters | null = null; // Cipher suite and features agreed with the server
   private authenticated: boolean = false; // Flag indicating whether the client is authenticated
   private reconnecting: boolean = false; // Flag for reconnecting the client after failure
+  private connectRetries: number = 0; // Reconnects made because the server asked us to wait
   private serverAddress: string = ""; // Server IP address or domain
   private serverPort: number = 0; // Server port number
   private connectionStatus: string = "Disconnected"; // Tracks the connection status
@@ -35,8 +206,21 @@ export class SecureMessagingClient {
     // Create readline interface for user input
     this.rl = createReadlineInterface();
 
-    // Generate client's RSA key pair for key exchange
-    this.keyPair = generateKeyPair();
+    // Load client's RSA key pair from disk (created on first run), so servers can authorize it
+    const { keyPair, created } = loadOrCreateKeyPair();
+    this.keyPair = keyPair;
+    if (created) {
+      console.log(
+        `Created a new client key with fingerprint ${getKeyFingerprint(
+          keyPair.publicKey
+        )}`
+      );
+    }
+
+    // Load (or create on first run) the long-lived key we sign messages with
+    this.signingKey = loadOrCreateSigningKey();
+
+    this.settings = loadClientSettings();
   }
 
   private updateConnectionStatus(status: string): void {
@@ -78,6 +262,10 @@ export class SecureMessagingClient {
   ): Promise<void> {
     try {
       this.username = await promptUser(this.rl, message);
+      while (!isValidUsername(this.username)) {
+        console.error(USERNAME_RULES);
+        this.username = await promptUser(this.rl, "Input Username: ");
+      }
 
       // Connect to the server after username is provided
       await this.connect(this.serverAddress, this.serverPort);
@@ -89,6 +277,8 @@ export class SecureMessagingClient {
 
   // Cleanup and close connections gracefully
   private cleanupAndExit(): void {
+    this.warnAboutUnacknowledged();
+
     if (this.socket) {
       // Close socket if open
       this.socket.destroy();
@@ -104,22 +294,38 @@ export class SecureMessagingClient {
     return new Promise((resolve, reject) => {
       // Handle incoming data from the server
       const handleData = (data: Buffer) => {
-        this.buffer += data.toString();
-
-        let messageEndIndex: number;
-        // Process complete messages in the buffer
-        while ((messageEndIndex = this.buffer.indexOf("\n")) !== -1) {
-          const rawMessage = this.buffer.substring(0, messageEndIndex);
-          this.buffer = this.buffer.substring(messageEndIndex + 1);
+        if (!this.frameBuffer) return;
+        this.lastReceivedAt = Date.now(); // Any data shows the connection is alive
+        appendFrameData(this.frameBuffer, data);
 
+        let rawFrame: string | Buffer | null;
+        // Process every complete frame in the buffer
+        while (this.frameBuffer && (rawFrame = this.readNextFrame()) !== null) {
           try {
-            const message: Message = JSON.parse(rawMessage); // Parse the message
-            this.handleMessage(message); // Handle the parsed message
+            const frame: Frame =
+              typeof rawFrame === "string"
+                ? JSON.parse(rawFrame)
+                : decodeBinaryFrame(rawFrame); // Parse the message
+
+            if (frame.type === "secure") {
+              // Everything after the key exchange arrives in the encrypted envelope
+              this.handleMessage(this.decryptFromServer(frame));
+            } else if (
+              this.receiveKey ||
+              !HANDSHAKE_FRAME_TYPES.includes(frame.type)
+            ) {
+              // Plaintext frames are only allowed for the handshake
+              logSecurityEvent(
+                `Rejected plaintext ${frame.type} frame from server`
+              );
+            } else {
+              this.handleMessage(frame); // Handle the parsed message
+            }
           } catch (error) {
             console.error("Error processing message:", error);
             // Redisplay the prompt if authenticated
             if (this.authenticated) {
-              displayMessagePrompt();
+              displayMessagePrompt(this.activeRoom);
             }
           }
         }
@@ -148,14 +354,18 @@ export class SecureMessagingClient {
       };
 
       // Create socket connection to the server
+      this.frameBuffer = createFrameBuffer(this.settings.maxFrameSize);
+      this.binaryFraming = false;
+      this.session = null;
       this.socket = createConnection(
         ipAddress,
         port,
         () => {
           console.log(`Connected to ${ipAddress}:${port}`);
           this.updateConnectionStatus("Connected");
-          // Send username and public key to the server
-          this.sendPublicKey();
+          // Open with our protocol version; the key exchange follows the server's answer
+          this.sendHello();
+          this.startHeartbeat();
           resolve();
         },
         handleData,
@@ -165,47 +375,178 @@ export class SecureMessagingClient {
     });
   }
 
-  // Send the public RSA key to the server
+  // Tell the server which protocol version, cipher suites and features we support
+  private sendHello(): void {
+    if (!this.socket) return;
+
+    const message: Message = {
+      type: "hello",
+      sender: this.username,
+      content: "",
+      protocolVersion: PROTOCOL_VERSION,
+      cipherSuites: CIPHER_SUITES,
+      features: CLIENT_FEATURES,
+      timestamp: getTimestamp(),
+    };
+
+    this.socket.write(JSON.stringify(message) + "\n");
+
+    // Servers from before the hello exchange never answer it
+    this.helloTimer = setTimeout(() => {
+      console.error(
+        "Cannot connect: the server did not answer the protocol version negotiation. It may be running an older version."
+      );
+      this.updateConnectionStatus("Disconnected");
+      this.cleanupAndExit();
+    }, HELLO_TIMEOUT);
+  }
+
+  // Take up what the server agreed to and start the key exchange; a version
+  // mismatch is explained rather than left to fail later
+  private handleHello(message: Message): void {
+    this.clearHelloTimer();
+    try {
+      this.session = readServerHello(message);
+    } catch (error) {
+      console.error(`Cannot connect: ${(error as Error).message}`);
+      this.updateConnectionStatus("Disconnected");
+      this.cleanupAndExit();
+      return;
+    }
+    this.sendPublicKey();
+  }
+
+  // Send the public RSA key, signed with our signing key so room key distributors can
+  // check it is ours, and a fresh ephemeral X25519 key to the server
   private sendPublicKey(): void {
     if (!this.socket) return;
 
+    this.ephemeralKeyPair = generateDHKeyPair();
+
     const message: Message = {
       type: "publicKey",
       sender: this.username,
       content: this.keyPair.publicKey,
+      signingKey: this.signingKey.publicKey,
+      signature: signData(
+        this.signingKey.privateKey,
+        getKeyBindingData(this.keyPair.publicKey)
+      ),
+      ephemeralKey: this.ephemeralKeyPair.publicKey,
       timestamp: getTimestamp(),
     };
 
     this.socket.write(JSON.stringify(message) + "\n");
   }
 
+  // Take the next whole frame from the buffer; a frame over the size limit
+  // means the server cannot be trusted, so the connection is dropped
+  private readNextFrame(): string | Buffer | null {
+    try {
+      return readFrame(this.frameBuffer as FrameBuffer);
+    } catch (error) {
+      logSecurityEvent(`Dropped connection: ${(error as Error).message}`);
+      console.error(`Connection error: ${(error as Error).message}`);
+      this.frameBuffer = null;
+      this.updateConnectionStatus("Disconnected");
+      this.cleanupAndExit();
+      return null;
+    }
+  }
+
+  // Stop waiting for the server's hello
+  private clearHelloTimer(): void {
+    if (this.helloTimer) clearTimeout(this.helloTimer);
+    this.helloTimer = null;
+  }
+
+  // Close the connection without exiting, so the client can connect again
+  private dropConnection(): void {
+    this.clearHelloTimer();
+    // Set reconnecting flag to prevent exit on socket close
+    this.reconnecting = true;
+
+    if (this.socket) {
+      this.socket.end();
+      this.socket = null;
+    }
+
+    // Reset client state
+    this.resetSessionKeys();
+    this.resetGroupKeys();
+    this.authenticated = false;
+    this.frameBuffer = null;
+  }
+
+  // Show an error from the server and act on its code. Errors before login and
+  // most handshake errors end the connection; the server closes it after sending
+  private handleServerError(message: Message): void {
+    clearCurrentLine();
+
+    // While connecting, wait as long as the server asks and try again
+    if (
+      (message.code === "rate_limited" || message.code === "server_busy") &&
+      !this.authenticated &&
+      message.retryAfter &&
+      this.connectRetries < MAX_CONNECT_RETRIES
+    ) {
+      this.connectRetries++;
+      console.error(
+        `Server error: ${message.content} Retrying in ${formatRetryAfter(
+          message.retryAfter
+        )}...`
+      );
+      this.dropConnection();
+      setTimeout(() => {
+        this.connect(this.serverAddress, this.serverPort).catch(() =>
+          this.cleanupAndExit()
+        );
+      }, message.retryAfter * 1000);
+      return;
+    }
+
+    const retryHint = message.retryAfter
+      ? ` Try again in ${formatRetryAfter(message.retryAfter)}.`
+      : "";
+    console.error(`Server error: ${message.content}${retryHint}`);
+
+    // A name the server will not take while connecting: ask for another
+    if (message.code === "invalid_username" && !this.authenticated) {
+      this.dropConnection();
+      setTimeout(() => {
+        this.promptForUsername("Please choose a different username: ");
+      }, 1000);
+      return;
+    }
+    if (
+      message.code === "not_permitted" ||
+      message.code === "bad_frame" ||
+      message.code === "invalid_username"
+    ) {
+      // The session goes on; only this request was refused
+      displayMessagePrompt(this.activeRoom);
+    }
+  }
+
   // Handle incoming messages from the server
   private handleMessage(message: Message): void {
     // Add a receipt timestamp (when the message was received)
     const receivedTimestamp = getTimestamp(); // Timestamp when message was received
 
-    // Handle username already taken error
+    // Handle username already taken (or reserved) error
     if (
       message.type === "usernameResult" &&
-      message.content === "username_taken"
+      (message.content === "username_taken" ||
+        message.content === "username_reserved")
     ) {
       console.error(
-        "Username already taken. Please choose a different username."
+        message.content === "username_reserved"
+          ? "That username is reserved for the server. Please choose a different username."
+          : "Username already taken. Please choose a different username."
       );
 
-      // Set reconnecting flag to prevent exit on socket close
-      this.reconnecting = true;
-
       // Close current connection and prompt for a new username
-      if (this.socket) {
-        this.socket.end();
-        this.socket = null;
-      }
-
-      // Reset client state
-      this.sharedSecret = null;
-      this.authenticated = false;
-      this.buffer = "";
+      this.dropConnection();
 
       // Ask for a new username after a short delay
       setTimeout(() => {
@@ -215,62 +556,246 @@ export class SecureMessagingClient {
       return;
     }
 
+    // Handle errors from the server
+    if (message.type === "error") {
+      this.handleServerError(message);
+      return;
+    }
+
+    // Handle the server's answer to our hello
+    if (message.type === "hello" && message.sender === "Server") {
+      this.handleHello(message);
+      return;
+    }
+
     // Handle public key exchange
     if (message.type === "publicKey" && message.sender === "Server") {
-      this.handleKeyExchange(message.content);
+      this.handleKeyExchange(message);
+      return;
+    }
+
+    // If password is required, prompt the user for it
+    if (message.type === "authChallenge") {
+      this.promptForPassword(JSON.parse(message.content), message.username);
+      return;
+    }
+
+    // Prove we hold the private key for public-key login
+    if (message.type === "keyChallenge") {
+      this.answerKeyChallenge(message.content);
+      return;
+    }
+
+    // Handle the outcome of /register, /login and /passwd
+    if (message.type === "accountResult") {
+      this.handleAccountResult(message);
       return;
     }
 
     // Handle authentication results
     if (message.type === "authResult") {
-      if (message.content === "password_required") {
-        // If password is required, prompt the user for it
-        this.promptForPassword();
-        return;
-      } else if (message.content === "authenticated") {
-        // Successful authentication
+      if (message.content === "authenticated") {
+        // After a password login the server must prove it holds the verifier
+        if (
+          this.expectedServerSignature &&
+          !verifyServerSignature(
+            this.expectedServerSignature,
+            message.signature || ""
+          )
+        ) {
+          logSecurityEvent(
+            "Server accepted the password but could not prove it knows it"
+          );
+          console.error(
+            "Server could not prove it knows the password. Disconnecting."
+          );
+          this.cleanupAndExit();
+          return;
+        }
+        this.expectedServerSignature = null;
+
+        // Successful authentication, under the account's spelling of our name
+        if (message.username) this.username = message.username;
         this.authenticated = true;
+        this.connectRetries = 0;
         console.log("Authentication successful. You've joined the chat.");
         this.listenForUserInput(); // Start listening for user input
-        displayMessagePrompt(); // Show the message input prompt
+        displayMessagePrompt(this.activeRoom); // Show the message input prompt
         return;
-      } else if (message.content === "authentication_failed") {
-        // Authentication failed
-        console.error("Authentication failed. Incorrect password.");
+      } else if (message.content === "key_not_authorized") {
+        // Public-key login: our key is not in the server's allowlist for this name
+        console.error(
+          `This server only accepts listed keys, and yours is not authorized for ${this.username}.`
+        );
+        console.error(
+          `Ask the server admin to add this line to its authorized_keys file:\n  ${
+            this.username
+          } ${getKeyFingerprint(this.keyPair.publicKey)}`
+        );
         return;
       }
     }
 
-    // For regular messages, decrypt if necessary
-    if (
-      message.type === "message" &&
-      message.iv &&
-      message.authTag &&
-      this.sharedSecret
-    ) {
+    // Handle joining and leaving rooms
+    if (message.type === "roomJoined") {
+      this.handleRoomJoined(message);
+      return;
+    }
+    if (message.type === "roomParted") {
+      this.handleRoomParted(message);
+      return;
+    }
+
+    // Handle room key rotation announcements (and distribution requests)
+    if (message.type === "groupKeyRequest") {
+      this.handleGroupKeyRequest(message);
+      return;
+    }
+
+    // Handle a new room key wrapped to this client
+    if (message.type === "groupKey") {
+      this.handleGroupKey(message);
+      return;
+    }
+
+    // Handle the key of a user we are about to write to
+    if (message.type === "userKey") {
+      this.handleUserKey(message);
+      return;
+    }
+
+    // Handle session rekey requests and responses
+    if (message.type === "rekey") {
+      this.handleRekey(message);
+      return;
+    }
+
+    // Answer the server's heartbeat, and show the round trip of our own pings
+    if (message.type === "ping") {
+      this.sendToServer({
+        type: "pong",
+        sender: this.username,
+        content: "",
+        id: message.id,
+        timestamp: getTimestamp(),
+      });
+      return;
+    }
+    if (message.type === "pong") {
+      this.handlePong(message);
+      return;
+    }
+
+    // Handle a /nick rename confirmed by the server
+    if (message.type === "renamed") {
+      this.username = message.username || this.username;
+      clearCurrentLine();
+      console.log(message.content);
+      displayMessagePrompt(this.activeRoom);
+      return;
+    }
+
+    // Handle presence changes, including our own
+    if (message.type === "presence") {
+      this.handlePresence(message);
+      return;
+    }
+
+    // Handle delivery acknowledgements and read receipts for our messages
+    if (message.type === "ack") {
+      this.handleAck(message);
+      return;
+    }
+    if (message.type === "read") {
+      this.handleReadReceipt(message);
+      return;
+    }
+
+    // Handle file offers and transfers
+    if (message.type === "fileOffer") {
+      this.handleFileOffer(message);
+      return;
+    }
+    if (message.type === "fileChunk") {
+      this.handleFileChunk(message);
+      return;
+    }
+    if (message.type === "fileComplete") {
+      this.saveIncomingFile(message.id || "");
+      return;
+    }
+    if (message.type === "fileAccept" || message.type === "fileDecline") {
+      this.handleFileAnswer(message);
+      return;
+    }
+    if (message.type === "fileCancel") {
+      this.handleFileCancel(message);
+      return;
+    }
+
+    // Handle edited and deleted messages
+    if (message.type === "edit") {
+      this.handleEdit(message);
+      return;
+    }
+    if (message.type === "delete") {
+      this.handleDelete(message);
+      return;
+    }
+
+    // Handle typing notifications
+    if (message.type === "typing") {
+      this.handleTyping(message);
+      return;
+    }
+
+    // Handle private messages (and the server's copy of the ones we sent)
+    if (message.type === "direct") {
+      this.handleDirectMessage(message, receivedTimestamp);
+      return;
+    }
+
+    // For regular messages, decrypt with the room key
+    if (message.type === "message") {
       try {
-        // Decrypt the message content
-        const decryptedContent = decryptMessage(
-          message.content,
-          message.iv,
-          message.authTag,
-          this.sharedSecret
-        );
+        const room = message.room || "";
+        const line = this.readRoomMessage(message);
 
         // Display the decrypted message with both timestamps
         clearCurrentLine(); // Clear the current line to avoid prompt conflict
         console.log(
-          `[Received: ${receivedTimestamp}] [Sent: ${message.timestamp}] ${message.sender}: ${decryptedContent}`
+          message.history
+            ? `[History] [Sent: ${message.timestamp}] ${room} ${line}${
+                message.edited ? " (edited)" : ""
+              }`
+            : `[Received: ${receivedTimestamp}] [Sent: ${message.timestamp}] ${room} ${line}`
         );
+        if (message.id) {
+          this.lastMessageIds.set(
+            `${room}\n${message.sender.toLowerCase()}`,
+            message.id
+          );
+        }
+        if (!message.history && message.sender !== this.username) {
+          this.sendReadReceipt(message.id);
+        }
 
         // Redisplay the prompt
         if (this.authenticated) {
-          displayMessagePrompt();
+          displayMessagePrompt(this.activeRoom);
         }
       } catch (error) {
-        console.error("Error decrypting message:", error);
+        if (message.history) {
+          // Sent under a room key nobody shared with us, e.g. before a server restart
+          clearCurrentLine();
+          console.log(
+            `[History] [Sent: ${message.timestamp}] ${message.room} ${message.sender}: (cannot be decrypted)`
+          );
+        } else {
+          console.error("Error decrypting message:", error);
+        }
         if (this.authenticated) {
-          displayMessagePrompt();
+          displayMessagePrompt(this.activeRoom);
         }
       }
     } else {
@@ -280,102 +805,1985 @@ export class SecureMessagingClient {
         `[Received: ${receivedTimestamp}][Sent: ${message.timestamp}] ${message.sender}: ${message.content}`
       );
       if (this.authenticated) {
-        displayMessagePrompt();
+        displayMessagePrompt(this.activeRoom);
       }
     }
   }
 
-  // Prompt for password if required by the server
-  private promptForPassword(): void {
-    this.rl.question("Server password: ", (password) => {
-      if (!this.sharedSecret || !this.socket) {
-        console.error("Secure connection not established");
-        this.cleanupAndExit();
-        return;
-      }
+  // Show a direct message apart from room traffic, checking the author's signature
+  private handleDirectMessage(
+    message: Message,
+    receivedTimestamp: string
+  ): void {
+    const recipient = message.username || "";
+    try {
+      const signedContent = this.openDirectMessage(message);
+      clearCurrentLine();
 
-      try {
-        // Encrypt the password and send it to the server
-        const { encrypted, iv, authTag } = encryptMessage(
-          password,
-          this.sharedSecret
+      if (message.sender === this.username) {
+        // Our own message, echoed back once it was delivered
+        console.log(
+          `[Received: ${receivedTimestamp}] [Sent: ${message.timestamp}] [DM to ${recipient}] ${signedContent.text}`
+        );
+      } else {
+        const senderLabel = this.getDirectSenderLabel(message, signedContent);
+        this.lastDirectSender = message.sender;
+        this.sendReadReceipt(message.id);
+        console.log(
+          `[Received: ${receivedTimestamp}] [Sent: ${message.timestamp}] [DM from ${senderLabel}]${
+            message.queued ? " (sent while you were away)" : ""
+          } ${signedContent.text}`
         );
+      }
+    } catch (error) {
+      console.error("Error reading direct message:", error);
+    }
 
-        const authMessage: Message = {
-          type: "auth",
-          sender: this.username,
-          content: encrypted,
-          iv,
-          authTag,
-          timestamp: getTimestamp(),
-        };
+    if (this.authenticated) {
+      displayMessagePrompt(this.activeRoom);
+    }
+  }
 
-        this.socket.write(JSON.stringify(authMessage) + "\n");
-      } catch (error) {
-        console.error("Error sending password:", error);
-        this.cleanupAndExit();
-      }
-    });
+  // Decrypt a room message and return the line to show. /me actions travel as
+  // ordinary (signed) text and are only rendered differently
+  private readRoomMessage(message: Message): string {
+    const { text, senderLabel } = this.openRoomMessage(message);
+    return text.startsWith("/me ")
+      ? `* ${senderLabel} ${text.slice("/me ".length)}`
+      : `${senderLabel}: ${text}`;
   }
 
-  // Handle key exchange and store the shared secret (AES key)
-  private handleKeyExchange(encryptedKeyBase64: string): void {
-    try {
-      // Decrypt the AES key using the client's private key
-      const decryptedKey = decryptAESKey(
-        encryptedKeyBase64,
-        this.keyPair.privateKey
-      );
+  // Decrypt a room message and check its author's signature, returning its text
+  // and how to name its sender
+  private openRoomMessage(message: Message): {
+    text: string;
+    senderLabel: string;
+  } {
+    const room = message.room || "";
+    const groupCiphertext: GroupCiphertext = JSON.parse(message.content);
+    const signedContent: SignedContent = JSON.parse(
+      this.decryptGroupMessage(room, groupCiphertext)
+    );
 
-      // Store the shared secret for encrypting/decrypting messages
-      this.sharedSecret = decryptedKey;
+    // Only flag messages that fail the check
+    const verification = this.verifyAuthor(
+      message.sender,
+      room,
+      groupCiphertext.epoch,
+      signedContent
+    );
+    const senderLabel =
+      verification === "verified"
+        ? message.sender
+        : `${message.sender} (${verification.toUpperCase()})`;
 
-      console.log("Secure connection established with end-to-end encryption");
-    } catch (error) {
-      console.error("Error during key exchange:", error);
-    }
+    return { text: signedContent.text, senderLabel };
   }
 
-  // Start listening for user input to send messages
-  private listenForUserInput(): void {
-    setupLineHandler(this.rl, (input) => {
-      if (input === "/leave") {
-        // Send leave message and close connection
-        this.sendMessage(input);
-        if (this.socket) {
-          this.socket.end();
+  // Check the signature of a direct message sent to us, returning how to name its sender
+  private getDirectSenderLabel(
+    message: Message,
+    signedContent: SignedContent
+  ): string {
+    const verification = this.verifyAuthor(
+      message.sender,
+      `@${(message.username || "").toLowerCase()}`,
+      0,
+      signedContent
+    );
+    return verification === "verified"
+      ? message.sender
+      : `${message.sender} (${verification.toUpperCase()})`;
+  }
+
+  // Show the new version of a message its author edited
+  private handleEdit(message: Message): void {
+    clearCurrentLine();
+    try {
+      if (message.room) {
+        console.log(
+          `[Edited] [Sent: ${message.timestamp}] ${message.room} ${this.readRoomMessage(message)} (edited)`
+        );
+      } else {
+        const signedContent = this.openDirectMessage(message);
+        console.log(
+          message.sender === this.username
+            ? `[Edited] [Sent: ${message.timestamp}] [DM to ${message.username}] ${signedContent.text} (edited)`
+            : `[Edited] [Sent: ${message.timestamp}] [DM from ${this.getDirectSenderLabel(
+                message,
+                signedContent
+              )}] ${signedContent.text} (edited)`
+        );
+      }
+
+      // Keep /sent in step with what others now see
+      if (message.sender === this.username) {
+        const sent = this.findSentMessage(message.id);
+        if (sent) {
+          const signedContent: SignedContent = message.room
+            ? JSON.parse(
+                this.decryptGroupMessage(
+                  message.room,
+                  JSON.parse(message.content)
+                )
+              )
+            : this.openDirectMessage(message);
+          sent.text = signedContent.text;
         }
-        return;
       }
+    } catch (error) {
+      console.error("Error reading edited message:", error);
+    }
 
-      this.sendMessage(input);
+    if (this.authenticated) {
+      displayMessagePrompt(this.activeRoom);
+    }
+  }
 
-      // Display prompt for next message
-      displayMessagePrompt();
+  // Mark a message as deleted and forget it, so /edit and /delete skip it
+  private handleDelete(message: Message): void {
+    const deletedBy =
+      message.content && message.content !== message.sender
+        ? ` by ${message.content}`
+        : "";
+    const where = message.room
+      ? `${message.room} ${message.sender}:`
+      : message.sender === this.username
+        ? `[DM to ${message.username}]`
+        : `[DM from ${message.sender}]`;
+
+    clearCurrentLine();
+    console.log(`[Deleted] ${where} (deleted${deletedBy})`);
+
+    this.sentMessages.forEach((sent, clientId) => {
+      if (sent.id === message.id) this.sentMessages.delete(clientId);
+    });
+    this.lastMessageIds.forEach((id, key) => {
+      if (id === message.id) this.lastMessageIds.delete(key);
     });
-  }
 
-  // Send a message to the server
-  private sendMessage(content: string): void {
-    if (!this.socket || !this.sharedSecret || !this.authenticated) return;
+    if (this.authenticated) {
+      displayMessagePrompt(this.activeRoom);
+    }
+  }
 
+  // Offer a file to a room or a user, then upload it in encrypted chunks. The
+  // file key travels in the signed offer, which is encrypted with the room key
+  // for rooms
+  private sendFile(target: string, filePath: string): void {
+    let stats: fs.Stats;
     try {
-      // Encrypt the message content
-      const { encrypted, iv, authTag } = encryptMessage(
-        content,
-        this.sharedSecret
-      );
+      stats = fs.statSync(filePath);
+    } catch {
+      console.log(`Cannot read ${filePath}.`);
+      return;
+    }
+    if (!stats.isFile() || stats.size === 0) {
+      console.log(`${filePath} is not a file with any content.`);
+      return;
+    }
 
-      const message: Message = {
-        type: "message",
+    const name = path.basename(filePath);
+    const fileKey = crypto.randomBytes(32);
+    const offer: FileOffer = {
+      name,
+      size: stats.size,
+      sha256: hashFile(filePath),
+      key: fileKey.toString("base64"),
+    };
+
+    // The upload starts once the server accepts the offer
+    const isRoom = target.startsWith("#");
+    const sendOffer = (content: string) => {
+      const id = crypto.randomUUID();
+      this.outgoingFiles.set(id, {
+        name,
+        target,
+        path: filePath,
+        size: stats.size,
+        key: fileKey,
+      });
+      this.sendToServer({
+        type: "fileOffer",
         sender: this.username,
-        content: encrypted,
-        iv,
-        authTag,
+        content,
+        id,
+        room: isRoom ? target : undefined,
+        username: isRoom ? undefined : target,
+        size: stats.size,
         timestamp: getTimestamp(),
-      };
+      });
+    };
+
+    if (isRoom) {
+      const roomKeys = this.rooms.get(target);
+      const groupKey = roomKeys?.keys.get(roomKeys.epoch);
+      if (!roomKeys || !groupKey) {
+        console.log(`You are not in ${target}.`);
+        return;
+      }
+      sendOffer(
+        this.sealRoomMessage(
+          target,
+          roomKeys.epoch,
+          groupKey,
+          JSON.stringify(offer)
+        )
+      );
+    } else {
+      this.withRecipientKey(
+        target,
+        (publicKey) =>
+          sendOffer(
+            this.sealDirectMessage(target, publicKey, JSON.stringify(offer))
+          ),
+        () => secureEraseKey(fileKey)
+      );
+    }
+  }
+
+  // Send a file's chunks, each encrypted with the file key and bound to its position
+  private async uploadFile(id: string, outgoing: OutgoingFile): Promise<void> {
+    const chunkCount = Math.ceil(outgoing.size / FILE_CHUNK_SIZE);
+    let shownPercent = 0;
 
-      this.socket.write(JSON.stringify(message) + "\n");
+    const fd = fs.openSync(outgoing.path, "r");
+    try {
+      for (let index = 0; index < chunkCount; index++) {
+        // Let the server's answers arrive in between; a refusal stops the upload
+        await new Promise((resolve) => setImmediate(resolve));
+        if (!this.outgoingFiles.has(id) || !this.socket) return;
+
+        const chunk = encryptChunk(
+          readFileChunk(fd, index),
+          outgoing.key,
+          Buffer.from(`${id}:${index}`, "utf8")
+        );
+        this.sendToServer({
+          type: "fileChunk",
+          sender: this.username,
+          content: JSON.stringify(chunk),
+          id,
+          chunk: index,
+          timestamp: getTimestamp(),
+        });
+        shownPercent = this.showProgress(
+          `Uploading ${outgoing.name}`,
+          index + 1,
+          chunkCount,
+          shownPercent
+        );
+      }
+    } finally {
+      fs.closeSync(fd);
+      secureEraseKey(outgoing.key);
+    }
+
+    this.sendToServer({
+      type: "fileComplete",
+      sender: this.username,
+      content: "",
+      id,
+      timestamp: getTimestamp(),
+    });
+    clearCurrentLine();
+    console.log(
+      `Sent ${outgoing.name} to ${outgoing.target}; waiting for it to be accepted.`
+    );
+    displayMessagePrompt(this.activeRoom);
+  }
+
+  // Show a file someone offers us, after checking who signed the offer and that
+  // its name is safe to save
+  private handleFileOffer(message: Message): void {
+    const id = message.id || "";
+    clearCurrentLine();
+    try {
+      let text: string;
+      let senderLabel: string;
+      if (message.room) {
+        ({ text, senderLabel } = this.openRoomMessage(message));
+      } else {
+        const signedContent = this.openDirectMessage(message);
+        text = signedContent.text;
+        senderLabel = this.getDirectSenderLabel(message, signedContent);
+      }
+
+      const offer: FileOffer = JSON.parse(text);
+      if (!isSafeFileName(offer.name) || offer.size !== message.size) {
+        logSecurityEvent(
+          `File offer from ${message.sender} has an unsafe name or a wrong size: ${JSON.stringify(
+            offer.name
+          )}`
+        );
+        console.log(`Declined a file from ${senderLabel} with an unsafe name.`);
+        this.sendFileAnswer(id, "fileDecline");
+      } else {
+        this.incomingFiles.set(id, {
+          sender: message.sender,
+          target: message.room || "you",
+          offer,
+          accepted: false,
+          chunks: [],
+          receivedBytes: 0,
+          shownPercent: 0,
+        });
+        const shortId = id.slice(0, 8);
+        console.log(
+          `[File] ${senderLabel} offers ${offer.name} (${formatFileSize(
+            offer.size
+          )}) to ${message.room || "you"}. Type /accept ${shortId} or /decline ${shortId}`
+        );
+      }
+    } catch (error) {
+      console.error("Error reading file offer:", error);
+    }
+
+    if (this.authenticated) {
+      displayMessagePrompt(this.activeRoom);
+    }
+  }
+
+  // Accept or decline a file offer, picked by the start of its ID or the latest one
+  private answerFileOffer(
+    prefix: string,
+    answer: "fileAccept" | "fileDecline"
+  ): void {
+    const offers = Array.from(this.incomingFiles.entries()).filter(
+      ([id, incoming]) => !incoming.accepted && id.startsWith(prefix)
+    );
+    if (offers.length === 0) {
+      console.log(prefix ? `No file offer ${prefix}.` : "No file offers.");
+      return;
+    }
+    if (prefix && offers.length > 1) {
+      console.log(`More than one file offer starts with ${prefix}.`);
+      return;
+    }
+
+    const [id, incoming] = offers[offers.length - 1];
+    if (answer === "fileAccept") {
+      incoming.accepted = true;
+      console.log(`Downloading ${incoming.offer.name}...`);
+    } else {
+      this.incomingFiles.delete(id);
+      console.log(`Declined ${incoming.offer.name}.`);
+    }
+    this.sendFileAnswer(id, answer);
+  }
+
+  // Tell the server whether we want a file
+  private sendFileAnswer(
+    id: string,
+    answer: "fileAccept" | "fileDecline"
+  ): void {
+    this.sendToServer({
+      type: answer,
+      sender: this.username,
+      content: "",
+      id,
+      timestamp: getTimestamp(),
+    });
+  }
+
+  // Decrypt the next chunk of a file we accepted
+  private handleFileChunk(message: Message): void {
+    const id = message.id || "";
+    const incoming = this.incomingFiles.get(id);
+    if (!incoming || !incoming.accepted) return;
+
+    try {
+      if (message.chunk !== incoming.chunks.length) {
+        throw new Error("a chunk arrived out of order");
+      }
+      const data = decryptChunk(
+        JSON.parse(message.content),
+        Buffer.from(incoming.offer.key, "base64"),
+        Buffer.from(`${id}:${message.chunk}`, "utf8")
+      );
+      incoming.receivedBytes += data.length;
+      if (incoming.receivedBytes > incoming.offer.size) {
+        throw new Error("the file is larger than announced");
+      }
+      incoming.chunks.push(data);
+      incoming.shownPercent = this.showProgress(
+        `Downloading ${incoming.offer.name}`,
+        incoming.receivedBytes,
+        incoming.offer.size,
+        incoming.shownPercent
+      );
+    } catch (error) {
+      this.incomingFiles.delete(id);
+      clearCurrentLine();
+      console.log(
+        `Could not receive ${incoming.offer.name}: ${(error as Error).message}`
+      );
+      displayMessagePrompt(this.activeRoom);
+    }
+  }
+
+  // Check a downloaded file against the hash in its offer and save it
+  private saveIncomingFile(id: string): void {
+    const incoming = this.incomingFiles.get(id);
+    if (!incoming || !incoming.accepted) return;
+    this.incomingFiles.delete(id);
+
+    const { name, size, sha256 } = incoming.offer;
+    const data = Buffer.concat(incoming.chunks);
+    const hash = crypto.createHash("sha256").update(data).digest("hex");
+
+    clearCurrentLine();
+    if (data.length !== size || hash !== sha256) {
+      logSecurityEvent(
+        `File ${name} from ${incoming.sender} does not match the hash in its offer`
+      );
+      console.log(
+        `${name} from ${incoming.sender} failed the integrity check and was discarded.`
+      );
+    } else {
+      try {
+        fs.mkdirSync(this.settings.downloadDir, { recursive: true });
+        const filePath = getDownloadPath(this.settings.downloadDir, name);
+        fs.writeFileSync(filePath, data, { flag: "wx", mode: 0o600 });
+        console.log(
+          `Saved ${name} from ${incoming.sender} to ${filePath} (SHA-256 verified).`
+        );
+      } catch (error) {
+        console.error(`Could not save ${name}:`, error);
+      }
+    }
+    displayMessagePrompt(this.activeRoom);
+  }
+
+  // Start uploading a file the server accepted, and show whether recipients took
+  // it or why the server refused it
+  private handleFileAnswer(message: Message): void {
+    const outgoing = this.outgoingFiles.get(message.id || "");
+    if (!outgoing) return;
+
+    if (message.sender === "Server" && message.type === "fileAccept") {
+      this.uploadFile(message.id || "", outgoing).catch((error) =>
+        console.error(`Error sending ${outgoing.name}:`, error)
+      );
+      return;
+    }
+
+    clearCurrentLine();
+    if (message.sender === "Server") {
+      this.outgoingFiles.delete(message.id || "");
+      secureEraseKey(outgoing.key);
+      console.log(`Could not send ${outgoing.name}: ${message.content}`);
+    } else {
+      console.log(
+        `${message.sender} ${
+          message.type === "fileAccept" ? "accepted" : "declined"
+        } ${outgoing.name}.`
+      );
+    }
+    displayMessagePrompt(this.activeRoom);
+  }
+
+  // Forget a file the server dropped, whether we were sending it or were offered it
+  private handleFileCancel(message: Message): void {
+    const id = message.id || "";
+    const outgoing = this.outgoingFiles.get(id);
+    const incoming = this.incomingFiles.get(id);
+
+    clearCurrentLine();
+    if (outgoing) {
+      this.outgoingFiles.delete(id); // Also stops an upload still in progress
+      secureEraseKey(outgoing.key);
+      console.log(
+        `${outgoing.name} is no longer offered to ${outgoing.target}: ${message.content}`
+      );
+    } else if (incoming && !incoming.accepted) {
+      this.incomingFiles.delete(id);
+      console.log(
+        `${incoming.offer.name} from ${incoming.sender} can no longer be accepted: ${message.content}`
+      );
+    } else {
+      return;
+    }
+    displayMessagePrompt(this.activeRoom);
+  }
+
+  // Print a transfer's progress in steps of a quarter, returning the percentage
+  // now shown. Completion is reported separately
+  private showProgress(
+    label: string,
+    done: number,
+    total: number,
+    shownPercent: number
+  ): number {
+    const percent = Math.floor((done / total) * 4) * 25;
+    if (percent <= shownPercent || percent >= 100) return shownPercent;
+
+    clearCurrentLine();
+    console.log(`${label}: ${percent}%`);
+    displayMessagePrompt(this.activeRoom);
+    return percent;
+  }
+
+  // Our most recent message the server has acknowledged, if any
+  private findLastSentMessage(): SentMessage | undefined {
+    return Array.from(this.sentMessages.values())
+      .reverse()
+      .find((sent) => sent.id);
+  }
+
+  // One of our messages, by the server's ID
+  private findSentMessage(id?: string): SentMessage | undefined {
+    return Array.from(this.sentMessages.values()).find(
+      (sent) => id && sent.id === id
+    );
+  }
+
+  // Replace the text of our last message, encrypting or signing it again like the original
+  private editLastMessage(text: string): void {
+    const sent = this.findLastSentMessage();
+    if (!sent) {
+      console.log("You have no message to edit.");
+      return;
+    }
+
+    const sendEdit = (content: string) =>
+      this.sendToServer({
+        type: "edit",
+        sender: this.username,
+        content,
+        id: sent.id,
+        timestamp: getTimestamp(),
+      });
+
+    if (sent.target.startsWith("@")) {
+      const recipient = sent.target.slice(1);
+      this.withRecipientKey(recipient, (publicKey) =>
+        sendEdit(this.sealDirectMessage(recipient, publicKey, text))
+      );
+    } else {
+      const roomKeys = this.rooms.get(sent.target);
+      const groupKey = roomKeys?.keys.get(roomKeys.epoch);
+      if (!roomKeys || !groupKey) {
+        console.log(`You are not in ${sent.target}.`);
+        return;
+      }
+      sendEdit(
+        this.sealRoomMessage(sent.target, roomKeys.epoch, groupKey, text)
+      );
+    }
+  }
+
+  // Delete our last message, or as a moderator the last message a user sent to
+  // the active room
+  private deleteLastMessage(username: string): void {
+    const id = username
+      ? this.lastMessageIds.get(`${this.activeRoom}\n${username.toLowerCase()}`)
+      : this.findLastSentMessage()?.id;
+    if (!id) {
+      console.log(
+        username
+          ? `No recent message from ${username} in ${this.activeRoom}.`
+          : "You have no message to delete."
+      );
+      return;
+    }
+
+    this.sendToServer({
+      type: "delete",
+      sender: this.username,
+      content: "",
+      id,
+      timestamp: getTimestamp(),
+    });
+  }
+
+  // Show a presence change; our own also updates the state idle detection relies on
+  private handlePresence(message: Message): void {
+    const presence = message.presence || "online";
+    const status = message.content ? `: ${message.content}` : "";
+    const isSelf = message.sender === this.username;
+    if (isSelf) {
+      this.presence = presence;
+
+      // Send the read receipts held back while we were away
+      if (presence === "online") {
+        const held = this.heldReadReceipts;
+        this.heldReadReceipts = [];
+        held.forEach((id) => this.sendReadReceipt(id));
+      }
+    }
+
+    const name = isSelf ? "You are" : `${message.sender} is`;
+    let line = `* ${name} back`;
+    if (presence === "away") {
+      line = `* ${name} away${status}`;
+    } else if (presence === "dnd") {
+      line = isSelf
+        ? `* You are in do-not-disturb mode${status}`
+        : `* ${message.sender} does not want to be disturbed${status}`;
+    }
+
+    clearCurrentLine();
+    console.log(line);
+    displayMessagePrompt(this.activeRoom);
+  }
+
+  // Show that someone started typing; repeated notifications within a few seconds
+  // keep the same burst going instead of printing again
+  private handleTyping(message: Message): void {
+    const key = `${message.room} ${message.sender}`;
+    const existing = this.typingUsers.get(key);
+    if (existing) {
+      clearTimeout(existing);
+    } else if (this.presence !== "dnd") {
+      clearCurrentLine();
+      console.log(`${message.sender} is typing in ${message.room}...`);
+      displayMessagePrompt(this.activeRoom);
+    }
+
+    this.typingUsers.set(
+      key,
+      setTimeout(() => this.typingUsers.delete(key), TYPING_DISPLAY_TIME)
+    );
+  }
+
+  // Track activity while the user is composing: come back from an automatic away,
+  // restart the idle timer and let the active room know we are typing
+  private handleKeypress(key: string): void {
+    if (!this.authenticated || this.enteringPassword) return;
+
+    if (this.autoAway) {
+      this.autoAway = false;
+      this.sendCommand("/back");
+    }
+    this.resetIdleTimer();
+
+    // Commands (including /msg) and submitted lines are not typing in the room
+    if (
+      key === "return" ||
+      key === "enter" ||
+      !this.activeRoom ||
+      this.rl.line.startsWith("/") ||
+      Date.now() - this.lastTypingSentAt < TYPING_NOTIFY_INTERVAL
+    ) {
+      return;
+    }
+    this.lastTypingSentAt = Date.now();
+    this.sendToServer({
+      type: "typing",
+      sender: this.username,
+      content: "",
+      room: this.activeRoom,
+      timestamp: getTimestamp(),
+    });
+  }
+
+  // Restart the countdown to being marked away; only an available user goes away automatically
+  private resetIdleTimer(): void {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = setTimeout(() => {
+      if (this.presence === "online" && this.authenticated) {
+        this.autoAway = true;
+        this.sendCommand("/away idle");
+      }
+    }, IDLE_AWAY_AFTER);
+  }
+
+  // Check the connection regularly: ping the server when it has been quiet and
+  // give up when it stays silent past the timeout
+  private startHeartbeat(): void {
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.lastReceivedAt = Date.now();
+    if (this.settings.heartbeatIntervalSeconds <= 0) return;
+
+    this.heartbeatTimer = setInterval(() => {
+      if (!this.socket || !this.sendKey) return;
+
+      const silentFor = Date.now() - this.lastReceivedAt;
+      if (silentFor >= this.settings.heartbeatTimeoutSeconds * 1000) {
+        clearCurrentLine();
+        console.warn(
+          `No response from the server for ${Math.round(
+            silentFor / 1000
+          )}s; the connection is dead.`
+        );
+        this.socket.destroy(); // Closing the socket ends the session as usual
+      } else if (silentFor >= this.settings.heartbeatIntervalSeconds * 1000) {
+        this.sendPing(false);
+      }
+    }, this.settings.heartbeatIntervalSeconds * 1000);
+  }
+
+  // Send a ping to the server; /ping shows the round trip when the pong arrives
+  private sendPing(show: boolean): void {
+    // Forget pings whose pong never came
+    const cutoff = Date.now() - this.settings.heartbeatTimeoutSeconds * 1000;
+    this.pendingPings.forEach((ping, id) => {
+      if (ping.sentAt < cutoff) this.pendingPings.delete(id);
+    });
+
+    const id = crypto.randomBytes(8).toString("hex");
+    this.pendingPings.set(id, { sentAt: Date.now(), show });
+    this.sendToServer({
+      type: "ping",
+      sender: this.username,
+      content: "",
+      id,
+      timestamp: getTimestamp(),
+    });
+  }
+
+  // Show the round-trip time of a /ping
+  private handlePong(message: Message): void {
+    const ping = this.pendingPings.get(message.id || "");
+    if (!ping) return;
+    this.pendingPings.delete(message.id || "");
+
+    if (ping.show) {
+      clearCurrentLine();
+      console.log(`Pong from server: ${Date.now() - ping.sentAt} ms`);
+      displayMessagePrompt(this.activeRoom);
+    }
+  }
+
+  // Remember a chat message we are about to send, returning the ID the server's ack will carry
+  private trackSentMessage(text: string, target: string): string {
+    const clientId = crypto.randomBytes(8).toString("hex");
+    this.sentMessages.set(clientId, {
+      text,
+      target,
+      status: "pending",
+      readBy: [],
+    });
+
+    // Forget the oldest messages that were acknowledged
+    if (this.sentMessages.size > MAX_SENT_MESSAGES) {
+      const oldest = Array.from(this.sentMessages.entries()).find(
+        ([, sent]) => sent.status !== "pending"
+      );
+      if (oldest) this.sentMessages.delete(oldest[0]);
+    }
+    return clientId;
+  }
+
+  // Record that the server passed one of our messages on (or queued it)
+  private handleAck(message: Message): void {
+    const sent = this.sentMessages.get(message.clientId || "");
+    if (!sent) return;
+
+    sent.id = message.id;
+    if (sent.status === "pending") {
+      sent.status = message.content === "queued" ? "queued" : "delivered";
+    }
+  }
+
+  // Record that someone read one of our messages; direct messages say so right away
+  private handleReadReceipt(message: Message): void {
+    const sent = Array.from(this.sentMessages.values()).find(
+      (other) => other.id && other.id === message.id
+    );
+    if (!sent || sent.readBy.includes(message.sender)) return;
+
+    sent.status = "read";
+    sent.readBy.push(message.sender);
+
+    if (sent.target.startsWith("@")) {
+      clearCurrentLine();
+      console.log(`✓ ${message.sender} read your message: ${sent.text}`);
+      displayMessagePrompt(this.activeRoom);
+    }
+  }
+
+  // Tell the sender we read their message; while we are away the receipt waits
+  // until we are back
+  private sendReadReceipt(id?: string): void {
+    if (!id || !this.sendReadReceipts) return;
+
+    if (this.presence !== "online") {
+      this.heldReadReceipts.push(id);
+      return;
+    }
+    this.sendToServer({
+      type: "read",
+      sender: this.username,
+      content: "",
+      id,
+      timestamp: getTimestamp(),
+    });
+  }
+
+  // List our recent messages with how far each one has got
+  private listSentMessages(): void {
+    const recent = Array.from(this.sentMessages.values()).slice(-10);
+    if (recent.length === 0) {
+      console.log("You have not sent any messages yet.");
+      return;
+    }
+
+    console.log("Your recent messages:");
+    recent.forEach((sent) => {
+      const status =
+        sent.status === "read"
+          ? `read by ${sent.readBy.join(", ")}`
+          : sent.status;
+      console.log(`  [${status}] ${sent.target}: ${sent.text}`);
+    });
+  }
+
+  // Before leaving, warn about messages the server never acknowledged
+  private warnAboutUnacknowledged(): void {
+    const pending = Array.from(this.sentMessages.values()).filter(
+      (sent) => sent.status === "pending"
+    );
+    if (pending.length === 0) return;
+
+    console.warn(
+      `Warning: ${pending.length} message${
+        pending.length === 1 ? " was" : "s were"
+      } never acknowledged by the server and may not have been delivered:`
+    );
+    pending.forEach((sent) => console.warn(`  ${sent.target}: ${sent.text}`));
+  }
+
+  // Prompt for the server or account password and answer the server's challenge
+  private promptForPassword(challenge: AuthChallenge, account?: string): void {
+    if (this.authenticated) clearCurrentLine(); // Replace the message prompt
+    const prompt = account ? `Password for ${account}: ` : "Server password: ";
+
+    this.enteringPassword = true;
+    this.rl.question(prompt, (password) => {
+      this.enteringPassword = false;
+      if (!this.sendKey || !this.socket) {
+        console.error("Secure connection not established");
+        this.cleanupAndExit();
+        return;
+      }
+
+      try {
+        // Only a proof derived from the password is sent; the password stays here
+        const { response, expectedServerSignature } = answerAuthChallenge(
+          password,
+          account || this.username,
+          challenge
+        );
+        this.expectedServerSignature = expectedServerSignature;
+
+        this.sendToServer({
+          type: "auth",
+          sender: this.username,
+          content: JSON.stringify(response),
+          timestamp: getTimestamp(),
+        });
+      } catch (error) {
+        console.error("Error sending password:", error);
+        this.cleanupAndExit();
+      }
+    });
+  }
+
+  // Sign the server's public-key login challenge with our RSA key
+  private answerKeyChallenge(nonce: string): void {
+    try {
+      this.sendToServer({
+        type: "keyAuth",
+        sender: this.username,
+        content: signKeyLogin(
+          this.keyPair.privateKey,
+          getKeyLoginData(this.username, nonce, this.serverFingerprint)
+        ),
+        timestamp: getTimestamp(),
+      });
+    } catch (error) {
+      console.error("Error answering key challenge:", error);
+      this.cleanupAndExit();
+    }
+  }
+
+  // Show the outcome of an account request; a successful login renames this client
+  private handleAccountResult(message: Message): void {
+    // After a /login the server must prove it holds the account's verifier
+    if (
+      message.username &&
+      this.expectedServerSignature &&
+      !verifyServerSignature(
+        this.expectedServerSignature,
+        message.signature || ""
+      )
+    ) {
+      logSecurityEvent(
+        `Server accepted the password for ${message.username} but could not prove it knows it`
+      );
+      console.error(
+        "Server could not prove it knows the password. Disconnecting."
+      );
+      this.cleanupAndExit();
+      return;
+    }
+    this.expectedServerSignature = null;
+
+    if (message.username) {
+      this.username = message.username;
+    }
+
+    clearCurrentLine();
+    console.log(message.content);
+    displayMessagePrompt(this.activeRoom);
+  }
+
+  // Ask for a new password twice and send its verifier for /register or /passwd
+  private promptForNewPassword(type: "register" | "passwd"): void {
+    clearCurrentLine(); // Replace the message prompt
+    this.enteringPassword = true;
+    this.rl.question("New password: ", (password) => {
+      this.rl.question("Repeat new password: ", (repeated) => {
+        this.enteringPassword = false;
+        if (password !== repeated) {
+          console.error("Passwords do not match.");
+          displayMessagePrompt(this.activeRoom);
+          return;
+        }
+        if (password.length < 6) {
+          console.error("Password must be at least 6 characters long.");
+          displayMessagePrompt(this.activeRoom);
+          return;
+        }
+
+        // Only the verifier is sent, never the password itself
+        this.sendToServer({
+          type,
+          sender: this.username,
+          content: createPasswordVerifier(password),
+          timestamp: getTimestamp(),
+        });
+      });
+    });
+  }
+
+  // Check the server's identity against the known-servers file (trust on first use)
+  private verifyServerIdentity(message: Message, transcript: string): boolean {
+    if (!message.identityKey || !message.signature) {
+      console.error(
+        "Server did not provide an identity key. Refusing to continue."
+      );
+      return false;
+    }
+
+    // The signature covers both ephemeral keys plus our own public key and username
+    if (
+      !verifyKeyExchangeSignature(
+        message.identityKey,
+        transcript,
+        message.signature
+      )
+    ) {
+      console.error(
+        "Server key exchange signature is invalid. Someone may be tampering with the connection."
+      );
+      return false;
+    }
+
+    const serverKey = getServerKey(this.serverAddress, this.serverPort);
+    const fingerprint = getKeyFingerprint(message.identityKey);
+    const knownFingerprint = lookupKnownServer(serverKey);
+
+    if (knownFingerprint === null) {
+      // First connection to this server: show the fingerprint and pin it
+      console.log(
+        `The authenticity of server ${serverKey} can't be established.`
+      );
+      console.log(`Server identity fingerprint is ${fingerprint}.`);
+      rememberServer(serverKey, fingerprint);
+      console.log(
+        `Permanently added ${serverKey} to the list of known servers.`
+      );
+      return true;
+    }
+
+    if (knownFingerprint !== fingerprint) {
+      console.error(
+        [
+          "@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@",
+          "@    WARNING: SERVER IDENTIFICATION HAS CHANGED!          @",
+          "@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@@",
+          "IT IS POSSIBLE THAT SOMEONE IS DOING SOMETHING NASTY!",
+          "Someone could be eavesdropping on you right now (man-in-the-middle attack)!",
+          "It is also possible that the server's identity key has just been changed.",
+          `The fingerprint for the server ${serverKey} is now ${fingerprint}.`,
+          `The pinned fingerprint is ${knownFingerprint}.`,
+          `Remove the entry for ${serverKey} from ~/.secure-messaging/known_servers if the change is expected.`,
+          "Connection refused.",
+        ].join("\n")
+      );
+      return false;
+    }
+
+    return true;
+  }
+
+  // Handle key exchange and derive the session keys
+  private handleKeyExchange(message: Message): void {
+    if (!this.ephemeralKeyPair || !this.session) return;
+
+    // Same transcript the server signed and used as HKDF salt
+    const transcript = [
+      this.ephemeralKeyPair.publicKey,
+      message.content,
+      this.keyPair.publicKey,
+      this.username,
+      describeSession(this.session),
+    ].join("\n");
+
+    // Never use a key from a server whose identity cannot be confirmed
+    if (!this.verifyServerIdentity(message, transcript)) {
+      this.updateConnectionStatus("Disconnected");
+      this.cleanupAndExit();
+      return;
+    }
+    this.serverFingerprint = getKeyFingerprint(message.identityKey as string);
+
+    try {
+      // Agree on a shared secret with the server's ephemeral key
+      const sharedSecret = computeSharedSecret(
+        this.ephemeralKeyPair.privateKey,
+        message.content
+      );
+
+      // Derive one key per direction and drop the handshake material
+      const sessionKeys = deriveSessionKeys(sharedSecret, transcript);
+      secureEraseKey(sharedSecret);
+      this.ephemeralKeyPair = null;
+      this.sendKey = sessionKeys.clientToServer;
+      this.receiveKey = sessionKeys.serverToClient;
+      this.keyEpoch = 0;
+
+      // Every frame after the key exchange uses the framing agreed in the hello
+      this.binaryFraming = this.session.features.includes("binaryFraming");
+      if (this.frameBuffer) this.frameBuffer.binary = this.binaryFraming;
+
+      console.log("Secure connection to server established");
+    } catch (error) {
+      console.error("Error during key exchange:", error);
+    }
+  }
+
+  // Track an announced room key epoch and, if asked, generate and distribute the key
+  private handleGroupKeyRequest(message: Message): void {
+    const roomKeys = this.rooms.get(message.room || "");
+    if (!roomKeys || message.epoch === undefined) return;
+
+    roomKeys.pendingEpoch = Math.max(roomKeys.pendingEpoch, message.epoch);
+    roomKeys.historyEpochs = message.historyEpochs || [];
+
+    if (message.members) {
+      this.distributeGroupKey(
+        message.room as string,
+        message.epoch,
+        message.members
+      );
+    }
+  }
+
+  // Generate a new room key, wrap it to the public key of every member whose key
+  // checks out and sign each wrapped copy
+  private distributeGroupKey(
+    room: string,
+    epoch: number,
+    members: GroupMember[]
+  ): void {
+    if (!this.socket) return;
+
+    const groupKey = generateGroupKey();
+    const wrappedKeys: Record<string, string> = {};
+    const wrappedHistoryKeys: Record<string, Record<string, string>> = {};
+    const keySignatures: Record<string, string> = {};
+    const roomKeys = this.rooms.get(room);
+
+    try {
+      members.forEach((member) => {
+        if (!this.verifyMemberKey(room, member, members)) return;
+
+        wrappedKeys[member.username] = wrapGroupKey(groupKey, member.publicKey);
+
+        // New members also get the older keys they need to read the history
+        (member.historyEpochs || []).forEach((historyEpoch) => {
+          const historyKey = roomKeys?.keys.get(historyEpoch);
+          if (!historyKey) return; // From before we joined; we cannot read it either
+          wrappedHistoryKeys[member.username] = {
+            ...wrappedHistoryKeys[member.username],
+            [historyEpoch]: wrapGroupKey(historyKey, member.publicKey),
+          };
+        });
+
+        keySignatures[member.username] = signData(
+          this.signingKey.privateKey,
+          getGroupKeySignedData(
+            room,
+            epoch,
+            member.username,
+            wrappedKeys[member.username],
+            wrappedHistoryKeys[member.username] || {}
+          )
+        );
+      });
+    } catch (error) {
+      console.error("Error wrapping room key:", error);
+      return;
+    } finally {
+      secureEraseKey(groupKey); // Our own copy comes back wrapped like everyone else's
+    }
+
+    const message: Message = {
+      type: "groupKey",
+      sender: this.username,
+      content: "",
+      room,
+      epoch,
+      wrappedKeys,
+      wrappedHistoryKeys,
+      signingKey: this.signingKey.publicKey,
+      keySignatures,
+      timestamp: getTimestamp(),
+    };
+
+    this.sendToServer(message);
+  }
+
+  // Check that a member's RSA key is signed by their signing key and that the signing
+  // key is the one pinned for them, so the server cannot have us wrap the room key to its own.
+  // Names are unique ignoring case, so a name listed twice means the roster is forged
+  private verifyMemberKey(
+    room: string,
+    member: GroupMember,
+    members: GroupMember[]
+  ): boolean {
+    const listedTwice =
+      members.filter(
+        (other) =>
+          other.username.toLowerCase() === member.username.toLowerCase()
+      ).length > 1;
+    const problem = listedTwice
+      ? "their name is listed more than once in different cases"
+      : this.checkUserKey(member);
+    if (!problem) return true;
+
+    logSecurityEvent(
+      `Not sharing the ${room} room key with ${member.username}: ${problem}`
+    );
+    clearCurrentLine();
+    console.log(
+      `Warning: not sharing the ${room} room key with ${member.username}: ${problem}.`
+    );
+    return false;
+  }
+
+  // Check a user's RSA key against their signing key and the one pinned for them,
+  // returning what is wrong with it, or null if it can be used
+  private checkUserKey(user: GroupMember): string | null {
+    if (!user.signingKey || !user.keySignature) {
+      return "their key is not signed";
+    }
+    if (
+      !verifySignature(
+        user.signingKey,
+        getKeyBindingData(user.publicKey),
+        user.keySignature
+      )
+    ) {
+      return "their key has an invalid signature";
+    }
+    if (
+      this.checkSigningKey(user.username, user.signingKey) === "key changed"
+    ) {
+      return "their signing key does not match the pinned one";
+    }
+    return null;
+  }
+
+  // Unwrap a new room key, once its signature shows it came from the distributor,
+  // and send any messages that were waiting for it
+  private handleGroupKey(message: Message): void {
+    const room = message.room || "";
+    const roomKeys = this.rooms.get(room);
+    if (!roomKeys || message.epoch === undefined) return;
+
+    const historyKeys = message.wrappedHistoryKeys?.[this.username] || {};
+    const validSignature =
+      !!message.signingKey &&
+      verifySignature(
+        message.signingKey,
+        getGroupKeySignedData(
+          room,
+          message.epoch,
+          this.username,
+          message.content,
+          historyKeys
+        ),
+        message.signature || ""
+      );
+    if (
+      !validSignature ||
+      this.checkSigningKey(message.sender, message.signingKey as string) ===
+        "key changed"
+    ) {
+      logSecurityEvent(
+        `Rejected the ${room} room key for epoch ${message.epoch} claiming to be from ${message.sender}: ${
+          validSignature ? "signing key changed" : "invalid signature"
+        }`
+      );
+      clearCurrentLine();
+      console.log(
+        `Warning: rejected a ${room} room key that could not be verified as coming from ${message.sender}.`
+      );
+      return;
+    }
+
+    try {
+      const groupKey = unwrapGroupKey(message.content, this.keyPair.privateKey);
+      roomKeys.keys.set(message.epoch, groupKey);
+      roomKeys.epoch = Math.max(roomKeys.epoch, message.epoch);
+
+      // Older keys shared with us for reading the history
+      Object.entries(historyKeys).forEach(([historyEpoch, wrappedKey]) => {
+        if (!roomKeys.keys.has(Number(historyEpoch))) {
+          roomKeys.keys.set(
+            Number(historyEpoch),
+            unwrapGroupKey(wrappedKey, this.keyPair.privateKey)
+          );
+        }
+      });
+    } catch (error) {
+      console.error("Error unwrapping room key:", error);
+      return;
+    }
+
+    // Wipe keys that are too old to be needed for in-flight messages or the history
+    roomKeys.keys.forEach((key, epoch) => {
+      if (
+        epoch < roomKeys.epoch - GROUP_KEY_RETENTION &&
+        !roomKeys.historyEpochs.includes(epoch)
+      ) {
+        secureEraseKey(key);
+        roomKeys.keys.delete(epoch);
+      }
+    });
+
+    if (roomKeys.epoch >= roomKeys.pendingEpoch) {
+      const queued = roomKeys.outgoingQueue;
+      roomKeys.outgoingQueue = [];
+      queued.forEach((content) => this.sendMessage(content, room));
+    }
+  }
+
+  // Decrypt a message that was encrypted with one of a room's keys
+  private decryptGroupMessage(
+    room: string,
+    groupCiphertext: GroupCiphertext
+  ): string {
+    const groupKey = this.rooms.get(room)?.keys.get(groupCiphertext.epoch);
+    if (!groupKey) {
+      throw new Error(`No room key for ${room} epoch ${groupCiphertext.epoch}`);
+    }
+
+    return decryptMessage(
+      groupCiphertext.content,
+      groupCiphertext.iv,
+      groupCiphertext.authTag,
+      groupKey
+    );
+  }
+
+  // Track a room we are now in and make it the active one
+  private handleRoomJoined(message: Message): void {
+    const room = message.room as string;
+    if (!this.rooms.has(room)) {
+      this.rooms.set(room, {
+        keys: new Map(),
+        epoch: 0,
+        pendingEpoch: 0,
+        outgoingQueue: [],
+        historyEpochs: [],
+      });
+    }
+    this.activeRoom = room;
+
+    clearCurrentLine();
+    console.log(
+      `Now talking in ${room}${message.content ? ` (topic: ${message.content})` : ""}`
+    );
+    displayMessagePrompt(this.activeRoom);
+  }
+
+  // Forget a room we left, wiping its keys
+  private handleRoomParted(message: Message): void {
+    const room = message.room as string;
+    this.rooms.get(room)?.keys.forEach((key) => secureEraseKey(key));
+    this.rooms.delete(room);
+
+    clearCurrentLine();
+    console.log(`You left ${room}.`);
+
+    // Fall back to another room we are still in, if any
+    if (this.activeRoom === room) {
+      this.activeRoom = this.rooms.keys().next().value || "";
+      console.log(
+        this.activeRoom
+          ? `Now talking in ${this.activeRoom}`
+          : "You are not in any room. Use /join <#room> to join one."
+      );
+    }
+    displayMessagePrompt(this.activeRoom);
+  }
+
+  // Send a message to the server inside the encrypted envelope
+  private sendToServer(message: Message): void {
+    if (!this.socket) return;
+
+    const frame = this.encryptForServer(message);
+    this.socket.write(
+      this.binaryFraming
+        ? encodeBinaryFrame(frame)
+        : JSON.stringify(frame) + "\n"
+    );
+  }
+
+  // Encrypt a whole message for the server with the current session key; the key epoch
+  // and next sequence number travel in the clear and are bound in as associated data
+  private encryptForServer(message: Message): SecureFrame {
+    const frame: SecureFrame = {
+      type: "secure",
+      keyEpoch: this.keyEpoch,
+      seq: ++this.sendSeq,
+      content: "",
+      iv: "",
+      authTag: "",
+    };
+    const { encrypted, iv, authTag }: EncryptedData = encryptMessage(
+      JSON.stringify(message),
+      this.sendKey as Buffer,
+      getAssociatedData(frame)
+    );
+
+    return { ...frame, content: encrypted, iv, authTag };
+  }
+
+  // Decrypt a frame from the server, rejecting replayed, reordered or tampered frames;
+  // frames sent before a rekey are decrypted with the previous key
+  private decryptFromServer(message: SecureFrame): Message {
+    // TCP delivers in order, so anything but the next number is a replay or reorder
+    if (message.seq !== this.receiveSeq + 1) {
+      logSecurityEvent(
+        `Rejected frame from server: expected sequence ${this.receiveSeq + 1}, got ${message.seq}`
+      );
+      throw new Error("Replayed or out-of-order frame");
+    }
+
+    const isCurrentEpoch = message.keyEpoch === this.keyEpoch;
+    const key = isCurrentEpoch
+      ? this.receiveKey
+      : message.keyEpoch === this.keyEpoch - 1
+        ? this.previousReceiveKey // Still in flight from before the rekey
+        : null;
+
+    if (!key) {
+      logSecurityEvent(
+        `Rejected frame from server: no session key for epoch ${message.keyEpoch}`
+      );
+      throw new Error(`No session key for epoch ${message.keyEpoch}`);
+    }
+
+    let content: string;
+    try {
+      content = decryptMessage(
+        message.content,
+        message.iv,
+        message.authTag,
+        key,
+        getAssociatedData(message)
+      );
+    } catch (error) {
+      logSecurityEvent(`Rejected frame from server: authentication failed`);
+      throw error;
+    }
+
+    this.receiveSeq = message.seq;
+
+    // The server has switched to the new keys, so the old one can go
+    if (isCurrentEpoch && this.previousReceiveKey) {
+      secureEraseKey(this.previousReceiveKey);
+      this.previousReceiveKey = null;
+    }
+
+    return JSON.parse(content);
+  }
+
+  // Ask the server to rotate the session keys
+  private initiateRekey(): void {
+    if (!this.socket || !this.sendKey || this.pendingRekey) return;
+
+    this.pendingRekey = generateDHKeyPair();
+    this.sendRekeyMessage(this.pendingRekey.publicKey, false);
+  }
+
+  // Handle a rekey request or response from the server
+  private handleRekey(message: Message): void {
+    const payload: RekeyPayload = JSON.parse(message.content);
+
+    if (!payload.response) {
+      // The server wins if both sides started at once; answer its request instead
+      this.pendingRekey = null;
+
+      // Answer under the old key, then switch; the server's in-flight messages
+      // still use the old key, so keep it for receiving until it switches too
+      const ephemeral = generateDHKeyPair();
+      this.sendRekeyMessage(ephemeral.publicKey, true);
+      this.switchSessionKeys(
+        ephemeral.privateKey,
+        ephemeral.publicKey,
+        payload.ephemeralKey,
+        true
+      );
+    } else {
+      if (!this.pendingRekey) return; // Unsolicited response
+
+      // The server's answer was the last frame it sent under the old key (it
+      // switches right after sending it), so on this ordered stream the old
+      // receive key is never needed again. The server keeps its own old receive
+      // key until our first frame under the new epoch reaches it
+      const { privateKey, publicKey } = this.pendingRekey;
+      this.pendingRekey = null;
+      this.switchSessionKeys(
+        privateKey,
+        publicKey,
+        payload.ephemeralKey,
+        false
+      );
+    }
+  }
+
+  // Send our half of a rekey to the server
+  private sendRekeyMessage(ephemeralKey: string, response: boolean): void {
+    if (!this.socket) return;
+
+    const payload: RekeyPayload = { ephemeralKey, response };
+    this.sendToServer({
+      type: "rekey",
+      sender: this.username,
+      content: JSON.stringify(payload),
+      timestamp: getTimestamp(),
+    });
+  }
+
+  // Derive the next session keys from a completed rekey and wipe the old ones
+  private switchSessionKeys(
+    privateKey: crypto.KeyObject,
+    clientEphemeralKey: string,
+    serverEphemeralKey: string,
+    keepPreviousReceiveKey: boolean
+  ): void {
+    const nextEpoch = this.keyEpoch + 1;
+    const sharedSecret = computeSharedSecret(privateKey, serverEphemeralKey);
+    const sessionKeys = deriveSessionKeys(
+      sharedSecret,
+      [clientEphemeralKey, serverEphemeralKey, `rekey ${nextEpoch}`].join("\n")
+    );
+    secureEraseKey(sharedSecret);
+
+    if (this.sendKey) secureEraseKey(this.sendKey);
+    if (this.previousReceiveKey) secureEraseKey(this.previousReceiveKey);
+    if (keepPreviousReceiveKey) {
+      this.previousReceiveKey = this.receiveKey;
+    } else {
+      if (this.receiveKey) secureEraseKey(this.receiveKey);
+      this.previousReceiveKey = null;
+    }
+
+    this.sendKey = sessionKeys.clientToServer;
+    this.receiveKey = sessionKeys.serverToClient;
+    this.keyEpoch = nextEpoch;
+
+    clearCurrentLine();
+    console.log(`Session keys rotated (epoch ${nextEpoch}).`);
+    if (this.authenticated) {
+      displayMessagePrompt(this.activeRoom);
+    }
+  }
+
+  // Verify who wrote a message: the signature must match the sender's name and the
+  // signing key must match the one pinned for that user on this server
+  private verifyAuthor(
+    sender: string,
+    room: string,
+    epoch: number,
+    signedContent: SignedContent
+  ): "verified" | "unverified" | "key changed" {
+    const validSignature = verifySignature(
+      signedContent.signingKey,
+      getSignedData(sender, room, epoch, signedContent.text),
+      signedContent.signature
+    );
+    if (!validSignature) {
+      logSecurityEvent(
+        `Message claiming to be from ${sender} has an invalid signature`
+      );
+      return "unverified";
+    }
+
+    return this.checkSigningKey(sender, signedContent.signingKey);
+  }
+
+  // Check a user's signing key against the one pinned for them on this server,
+  // pinning it if we have not seen the user before
+  private checkSigningKey(
+    username: string,
+    signingKey: string
+  ): "verified" | "key changed" {
+    const serverKey = getServerKey(this.serverAddress, this.serverPort);
+    const fingerprint = getKeyFingerprint(signingKey);
+    const knownFingerprint = lookupKnownUser(serverKey, username);
+
+    if (knownFingerprint === null) {
+      rememberUser(serverKey, username, fingerprint); // Trust on first use
+      return "verified";
+    }
+
+    if (knownFingerprint !== fingerprint) {
+      logSecurityEvent(
+        `Signing key for ${username} on ${serverKey} changed: pinned ${knownFingerprint}, got ${fingerprint}`
+      );
+      return "key changed";
+    }
+
+    return "verified";
+  }
+
+  // Drop the session keys, wiping them from memory
+  private resetSessionKeys(): void {
+    [this.sendKey, this.receiveKey, this.previousReceiveKey].forEach(
+      (key) => key && secureEraseKey(key)
+    );
+    this.sendKey = null;
+    this.receiveKey = null;
+    this.previousReceiveKey = null;
+    this.keyEpoch = 0;
+    this.sendSeq = 0;
+    this.receiveSeq = 0;
+    this.pendingRekey = null;
+    this.ephemeralKeyPair = null;
+    this.expectedServerSignature = null;
+  }
+
+  // Drop all room keys, wiping them from memory
+  private resetGroupKeys(): void {
+    this.rooms.forEach((roomKeys) =>
+      roomKeys.keys.forEach((key) => secureEraseKey(key))
+    );
+    this.rooms.clear();
+    this.activeRoom = "";
+  }
+
+  // Start listening for user input to send messages
+  private listenForUserInput(): void {
+    setupKeypressHandler((key) => this.handleKeypress(key));
+    this.resetIdleTimer();
+
+    setupLineHandler(this.rl, (input) => {
+      if (input === "/leave") {
+        // Send leave command and close connection
+        this.sendCommand(input);
+        if (this.socket) {
+          this.socket.end();
+        }
+        return;
+      }
+
+      if (input === "/register" || input === "/passwd") {
+        // Protect the current name with a password, or change that password
+        this.promptForNewPassword(
+          input === "/register" ? "register" : "passwd"
+        );
+        return;
+      }
+
+      if (input.startsWith("/login")) {
+        // Log in to a registered account without reconnecting
+        const account = input.slice("/login".length).trim();
+        if (!account) {
+          console.log("Usage: /login <username>");
+        } else {
+          this.sendToServer({
+            type: "login",
+            sender: this.username,
+            content: account,
+            timestamp: getTimestamp(),
+          });
+        }
+        displayMessagePrompt(this.activeRoom);
+        return;
+      }
+
+      if (input.startsWith("/msg ") || input === "/msg") {
+        // Private message to a single user
+        const [, recipient = "", ...words] = input.split(" ");
+        const text = words.join(" ").trim();
+        if (!recipient || !text) {
+          console.log("Usage: /msg <username> <message>");
+        } else {
+          this.sendDirectMessage(recipient, text);
+        }
+        displayMessagePrompt(this.activeRoom);
+        return;
+      }
+
+      if (input.startsWith("/r ") || input === "/r") {
+        // Reply to whoever sent us the last direct message
+        const text = input.slice("/r".length).trim();
+        if (!this.lastDirectSender) {
+          console.log("Nobody has sent you a direct message yet.");
+        } else if (!text) {
+          console.log("Usage: /r <message>");
+        } else {
+          this.sendDirectMessage(this.lastDirectSender, text);
+        }
+        displayMessagePrompt(this.activeRoom);
+        return;
+      }
+
+      if (input === "/ping") {
+        // Measure the round trip to the server
+        this.sendPing(true);
+        displayMessagePrompt(this.activeRoom);
+        return;
+      }
+
+      if (input === "/rekey") {
+        // Rotate the session keys with the server on demand
+        this.initiateRekey();
+        displayMessagePrompt(this.activeRoom);
+        return;
+      }
+
+      if (input === "/sent") {
+        // Show whether our recent messages were delivered and read
+        this.listSentMessages();
+        displayMessagePrompt(this.activeRoom);
+        return;
+      }
+
+      if (input === "/receipts on" || input === "/receipts off") {
+        // Choose whether senders learn that we read their messages
+        this.sendReadReceipts = input === "/receipts on";
+        console.log(
+          `Read receipts are ${this.sendReadReceipts ? "on" : "off"}.`
+        );
+        displayMessagePrompt(this.activeRoom);
+        return;
+      }
+
+      if (input.startsWith("/send ") || input === "/send") {
+        // Offer a file to a room or a user
+        const [, target = "", ...words] = input.split(" ");
+        const filePath = words.join(" ").trim();
+        if (!target || !filePath) {
+          console.log("Usage: /send <#room|username> <path>");
+        } else if (!this.session?.features.includes("fileTransfer")) {
+          console.log("This server does not support file transfer.");
+        } else {
+          this.sendFile(target, filePath);
+        }
+        displayMessagePrompt(this.activeRoom);
+        return;
+      }
+
+      if (/^\/(accept|decline)( |$)/.test(input)) {
+        // Answer a file offer
+        const [command, prefix = ""] = input.split(" ");
+        this.answerFileOffer(
+          prefix,
+          command === "/accept" ? "fileAccept" : "fileDecline"
+        );
+        displayMessagePrompt(this.activeRoom);
+        return;
+      }
+
+      if (input.startsWith("/edit ") || input === "/edit") {
+        // Replace the text of our last message
+        const text = input.slice("/edit".length).trim();
+        if (!text) {
+          console.log("Usage: /edit <new text>");
+        } else {
+          this.editLastMessage(text);
+        }
+        displayMessagePrompt(this.activeRoom);
+        return;
+      }
+
+      if (input.startsWith("/delete ") || input === "/delete") {
+        // Delete our last message, or (moderators) someone else's
+        this.deleteLastMessage(input.slice("/delete".length).trim());
+        displayMessagePrompt(this.activeRoom);
+        return;
+      }
+
+      if (input.startsWith("/me ")) {
+        // Actions are end-to-end encrypted like any other room message
+        this.sendMessage(input);
+        displayMessagePrompt(this.activeRoom);
+        return;
+      }
+
+      if (input === "/help") {
+        // List our own commands; the server answers with its commands
+        this.sendCommand(input);
+        const width = Math.max(
+          ...CLIENT_COMMANDS.map(([usage]) => usage.length)
+        );
+        console.log(
+          [
+            "Client commands:",
+            ...CLIENT_COMMANDS.map(
+              ([usage, description]) =>
+                `  ${usage.padEnd(width)}  ${description}`
+            ),
+          ].join("\n")
+        );
+        displayMessagePrompt(this.activeRoom);
+        return;
+      }
+
+      if (input.startsWith("/")) {
+        // Everything else is a server command
+        this.sendCommand(input);
+        displayMessagePrompt(this.activeRoom);
+        return;
+      }
+
+      this.sendMessage(input);
+
+      // Display prompt for next message
+      displayMessagePrompt(this.activeRoom);
+    });
+  }
+
+  // Send a slash command to the server, tagged with the active room
+  private sendCommand(input: string): void {
+    this.sendToServer({
+      type: "command",
+      sender: this.username,
+      content: input,
+      room: this.activeRoom,
+      timestamp: getTimestamp(),
+    });
+  }
+
+  // Send a signed direct message to a single user through the server, encrypted
+  // to their public key once we have it
+  private sendDirectMessage(recipient: string, text: string): void {
+    if (!this.socket || !this.sendKey || !this.authenticated) return;
+
+    this.withRecipientKey(recipient, (publicKey) =>
+      this.sendToServer({
+        type: "direct",
+        sender: this.username,
+        content: this.sealDirectMessage(recipient, publicKey, text),
+        username: recipient,
+        clientId: this.trackSentMessage(text, `@${recipient}`),
+        timestamp: getTimestamp(),
+      })
+    );
+  }
+
+  // Run a send once the server has told us the recipient's public key and it
+  // checks out; messages to the same user wait for one shared request
+  private withRecipientKey(
+    recipient: string,
+    send: (publicKey: string) => void,
+    cancel?: () => void
+  ): void {
+    const name = recipient.toLowerCase();
+    const pending = this.pendingKeyRequests.get(name);
+    if (pending) {
+      pending.push({ send, cancel });
+      return;
+    }
+
+    this.pendingKeyRequests.set(name, [{ send, cancel }]);
+    this.sendToServer({
+      type: "keyRequest",
+      sender: this.username,
+      content: "",
+      username: recipient,
+      timestamp: getTimestamp(),
+    });
+  }
+
+  // Send what was waiting for a user's key, or drop it if there is no key
+  // (the server says why) or the key cannot be trusted
+  private handleUserKey(message: Message): void {
+    const username = message.username || "";
+    const pending = this.pendingKeyRequests.get(username.toLowerCase());
+    if (!pending) {
+      // Names match ignoring case; a key for anyone we did not ask about is never pinned
+      logSecurityEvent(`Ignored an unrequested key for ${username}`);
+      return;
+    }
+    this.pendingKeyRequests.delete(username.toLowerCase());
+
+    let problem: string | null = null;
+    if (message.content) {
+      problem = this.checkUserKey({
+        username,
+        publicKey: message.content,
+        signingKey: message.signingKey,
+        keySignature: message.signature,
+      });
+      if (problem) {
+        logSecurityEvent(`Not writing to ${username}: ${problem}`);
+        clearCurrentLine();
+        console.log(`Warning: not writing to ${username}: ${problem}.`);
+        displayMessagePrompt(this.activeRoom);
+      }
+    }
+
+    pending.forEach(({ send, cancel }) => {
+      if (message.content && !problem) {
+        send(message.content);
+      } else if (cancel) {
+        cancel();
+      }
+    });
+  }
+
+  // Sign a direct message and encrypt it under a fresh key wrapped to the
+  // recipient's public key and ours, so only the two of us can read it
+  private sealDirectMessage(
+    recipient: string,
+    recipientKey: string,
+    text: string
+  ): string {
+    const messageKey = generateGroupKey();
+    try {
+      const encrypted = encryptMessage(
+        JSON.stringify(this.signDirectMessage(recipient, text)),
+        messageKey
+      );
+      const directCiphertext: DirectCiphertext = {
+        wrappedKeys: {
+          [recipient.toLowerCase()]: wrapGroupKey(messageKey, recipientKey),
+          [this.username.toLowerCase()]: wrapGroupKey(
+            messageKey,
+            this.keyPair.publicKey
+          ),
+        },
+        content: encrypted.encrypted,
+        iv: encrypted.iv,
+        authTag: encrypted.authTag,
+      };
+      return JSON.stringify(directCiphertext);
+    } finally {
+      secureEraseKey(messageKey);
+    }
+  }
+
+  // Decrypt a direct message sent to us (or by us) and return its signed content
+  private openDirectMessage(message: Message): SignedContent {
+    const directCiphertext: DirectCiphertext = JSON.parse(message.content);
+    const wrappedKey =
+      directCiphertext.wrappedKeys[this.username.toLowerCase()];
+    if (!wrappedKey) {
+      throw new Error("The message is not encrypted to us");
+    }
+
+    const messageKey = unwrapGroupKey(wrappedKey, this.keyPair.privateKey);
+    try {
+      return JSON.parse(
+        decryptMessage(
+          directCiphertext.content,
+          directCiphertext.iv,
+          directCiphertext.authTag,
+          messageKey
+        )
+      );
+    } finally {
+      secureEraseKey(messageKey);
+    }
+  }
+
+  // Sign the text of a direct message so the recipient can verify we wrote it
+  private signDirectMessage(recipient: string, text: string): SignedContent {
+    return {
+      text,
+      signingKey: this.signingKey.publicKey,
+      signature: signData(
+        this.signingKey.privateKey,
+        getSignedData(
+          this.username,
+          `@${recipient.toLowerCase()}`, // Names are matched ignoring case
+          0,
+          text
+        )
+      ),
+    };
+  }
+
+  // Sign a room message and encrypt it end-to-end with the room key, returning
+  // the ciphertext as sent to the server
+  private sealRoomMessage(
+    room: string,
+    epoch: number,
+    groupKey: Buffer,
+    text: string
+  ): string {
+    // Sign the message so recipients can verify we wrote it
+    const signedContent: SignedContent = {
+      text,
+      signingKey: this.signingKey.publicKey,
+      signature: signData(
+        this.signingKey.privateKey,
+        getSignedData(this.username, room, epoch, text)
+      ),
+    };
+
+    const groupEncrypted = encryptMessage(
+      JSON.stringify(signedContent),
+      groupKey
+    );
+    const groupCiphertext: GroupCiphertext = {
+      epoch,
+      content: groupEncrypted.encrypted,
+      iv: groupEncrypted.iv,
+      authTag: groupEncrypted.authTag,
+    };
+    return JSON.stringify(groupCiphertext);
+  }
+
+  // Send a message to a room (the active one unless given)
+  private sendMessage(content: string, room: string = this.activeRoom): void {
+    if (!this.socket || !this.sendKey || !this.authenticated) return;
+
+    const roomKeys = this.rooms.get(room);
+    if (!roomKeys) {
+      console.log("You are not in a room. Use /join <#room> to join one.");
+      return;
+    }
+
+    // Hold the message until the current room key has arrived
+    const groupKey = roomKeys.keys.get(roomKeys.epoch);
+    if (!groupKey || roomKeys.epoch < roomKeys.pendingEpoch) {
+      roomKeys.outgoingQueue.push(content);
+      return;
+    }
+
+    try {
+      // Encrypt the message end-to-end with the room key and send it to the
+      // server inside the encrypted envelope
+      this.sendToServer({
+        type: "message",
+        sender: this.username,
+        content: this.sealRoomMessage(room, roomKeys.epoch, groupKey, content),
+        room,
+        clientId: this.trackSentMessage(content, room),
+        timestamp: getTimestamp(),
+      });
     } catch (error) {
       console.error("Error sending message:", error);
     }
@@ -13,13 +13,229 @@ export interface Message {
     | "leave" // User leaving the server
     | "publicKey" // A message containing a public key
     | "auth" // Authentication request
+    | "authChallenge" // Password challenge from the server
+    | "keyChallenge" // Public-key login challenge from the server
+    | "keyAuth" // Signature answering a public-key login challenge
     | "authResult" // Authentication result
-    | "usernameResult"; // Username validation result
+    | "usernameResult" // Username validation result
+    | "groupKeyRequest" // Server asks members to expect (or distribute) a new room key
+    | "groupKey" // A room key wrapped to a member's public key
+    | "keyRequest" // Asks for a user's public key before sending them a direct message or file
+    | "userKey" // A user's public key and their signature over it, or no key if there is none
+    | "error" // Protocol error reported by the server
+    | "rekey" // Session rekey request or response
+    | "register" // Register the current username as an account
+    | "login" // Log in to a registered account during a session
+    | "passwd" // Change the password of the logged-in account
+    | "accountResult" // Outcome of a register, login or passwd request
+    | "notice" // Server notice shown to the user as-is
+    | "command" // Slash command for the server, such as /join or /rooms
+    | "roomJoined" // The client is now a member of a room
+    | "roomParted" // The client is no longer a member of a room
+    | "direct" // Private message to a single user
+    | "renamed" // The client's username changed (after /nick)
+    | "presence" // A user's presence changed
+    | "typing" // A user is typing in a room
+    | "ack" // The server has passed a chat message on to its recipients
+    | "read" // Read receipt for a chat message
+    | "edit" // New text for a chat message its author sent earlier
+    | "delete" // Removal of a chat message by its author or a moderator
+    | "fileOffer" // A file someone wants to send, with the key to its chunks
+    | "fileChunk" // One encrypted piece of a file
+    | "fileComplete" // All chunks of a file have been sent
+    | "fileAccept" // A recipient wants the offered file
+    | "fileDecline" // A recipient does not want the file, or the server refused it
+    | "fileCancel" // The server dropped a file before everyone answered, e.g. because it expired
+    | "ping" // Heartbeat or /ping, answered with a pong carrying the same ID
+    | "pong" // Answer to a ping
+    | "hello"; // Protocol version and features, the first frame in each direction
   sender: string; // The username of the message sender
   content: string; // The content of the message (could be text or other data)
   iv?: string; // Initialization vector for encrypted messages (optional)
   authTag?: string; // Authentication tag for encrypted messages (optional)
   timestamp: string; // Timestamp when the message was sent
+  id?: string; // Unique ID the server gives every chat message
+  clientId?: string; // ID we chose for a chat message we sent, echoed in the server's ack
+  room?: string; // Room a message, notice or room key belongs to
+  epoch?: number; // Room key epoch for group key messages
+  members?: GroupMember[]; // Members a new room key must be wrapped to (distributor only)
+  wrappedKeys?: Record<string, string>; // Room key wrapped to each member, keyed by username
+  wrappedHistoryKeys?: Record<string, Record<string, string>>; // Older room keys for new members, by username, then epoch
+  historyEpochs?: number[]; // Room key epochs still needed to read the room history
+  history?: boolean; // Set on messages replayed from the room history
+  queued?: boolean; // Set on direct messages that were queued while we were offline
+  edited?: boolean; // Set on history messages whose author edited them
+  size?: number; // Size of an offered file in bytes
+  chunk?: number; // Position of a file chunk, counting from 0
+  presence?: PresenceState; // The new presence in a presence message
+  ephemeralKey?: string; // The client's ephemeral X25519 public key in the handshake
+  protocolVersion?: number; // Protocol version the sender speaks, in a hello
+  cipherSuites?: string[]; // Cipher suites offered by the client, or the one the server chose
+  features?: ProtocolFeature[]; // Optional features offered by the client, or the ones the server agreed to
+  code?: ErrorCode; // What went wrong, on error frames
+  retryAfter?: number; // Seconds to wait before trying again, on error frames
+  username?: string; // Account name a challenge or account result applies to, or the recipient of a direct message
+  identityKey?: string; // The server's long-lived identity public key (PEM) in the key exchange
+  signature?: string; // Identity signature over the key exchange, the server's login signature, a user's signature over their RSA key, or a room key's signature, in base64 format
+  signingKey?: string; // A user's Ed25519 public key (PEM), vouching for their RSA key or for a room key they distributed
+  keySignatures?: Record<string, string>; // The distributor's signature over each member's wrapped room key, keyed by username
+}
+
+/**
+ * Represents a chat message we sent, tracked until the server acknowledges it
+ * and recipients report reading it.
+ */
+export interface SentMessage {
+  id?: string; // The server's ID for the message, once acknowledged
+  text: string; // The message text
+  target: string; // The room, or "@" and the recipient for a direct message
+  status: "pending" | "delivered" | "queued" | "read"; // How far the message has got
+  readBy: string[]; // Users who reported reading the message
+}
+
+/**
+ * Represents the signed description of a file, sent as the text of a file offer.
+ * For rooms the offer is encrypted with the room key, so only members learn the file key.
+ */
+export interface FileOffer {
+  name: string; // The file's name, without any directory
+  size: number; // Size in bytes
+  sha256: string; // SHA-256 of the whole file, hex-encoded
+  key: string; // AES key the chunks are encrypted with, in base64 format
+}
+
+/**
+ * Represents a file someone offered us, from the offer until it is saved.
+ */
+export interface IncomingFile {
+  sender: string; // Who offered the file
+  target: string; // The room it was offered to, or "you"
+  offer: FileOffer; // What the sender announced
+  accepted: boolean; // Whether we asked for the file
+  chunks: Buffer[]; // Decrypted chunks received so far
+  receivedBytes: number; // Bytes received so far
+  shownPercent: number; // Progress last shown, in percent
+}
+
+/**
+ * Represents a file we are sending.
+ */
+export interface OutgoingFile {
+  name: string; // The file's name
+  target: string; // The room or user it is sent to
+  path: string; // Where the file is read from
+  size: number; // Size in bytes
+  key: Buffer; // AES key the chunks are encrypted with, wiped after the upload
+}
+
+/**
+ * Represents the client's own settings, read from `client-config.json` in its data directory.
+ */
+export interface ClientSettings {
+  downloadDir: string; // Directory received files are saved to
+  heartbeatIntervalSeconds: number; // Ping the server after this long without hearing from it (0 turns the heartbeat off)
+  heartbeatTimeoutSeconds: number; // Give up on the connection after this long without hearing from the server
+  maxFrameSize: number; // Largest frame accepted from the server, in bytes
+}
+
+/**
+ * Presence states a user can be in.
+ */
+export type PresenceState = "online" | "away" | "dnd";
+
+/**
+ * Optional protocol features a client and server can agree on in the hello exchange.
+ * Compression is not one of them: compressing before encryption leaks content through lengths.
+ */
+export type ProtocolFeature = "rooms" | "fileTransfer" | "binaryFraming";
+
+/**
+ * Stable codes carried by error frames, so clients can act on an error
+ * without parsing its text.
+ */
+export type ErrorCode =
+  | "rate_limited" // Too many connections or login attempts from the address
+  | "server_busy" // Too many connections are waiting to log in
+  | "banned" // The user, key or address is banned
+  | "auth_failed" // The password was wrong
+  | "timeout" // The handshake or login took too long
+  | "unsupported_version" // Protocol versions or cipher suites do not match
+  | "handshake_failed" // The key exchange could not be completed
+  | "bad_frame" // A frame could not be processed
+  | "too_large" // A frame was over the size limit
+  | "not_permitted" // The client may not do what it asked
+  | "invalid_username"; // The username breaks the naming rules
+
+/**
+ * Represents what a client and server agreed on in the hello exchange.
+ */
+export interface SessionParameters {
+  cipherSuite: string; // Key exchange and encryption scheme for the session
+  features: ProtocolFeature[]; // Optional features both sides support
+}
+
+/**
+ * Represents a room member that a new room key has to be wrapped to.
+ */
+export interface GroupMember {
+  username: string; // The member's username
+  publicKey: string; // The member's RSA public key (PEM)
+  signingKey?: string; // The member's Ed25519 public key (PEM)
+  keySignature?: string; // The member's signature over their RSA public key, in base64 format
+  historyEpochs?: number[]; // Older epochs whose keys a new member needs to read the room history
+}
+
+/**
+ * Represents the room key state the client keeps for each room it has joined.
+ */
+export interface RoomKeys {
+  keys: Map<number, Buffer>; // Room keys by epoch
+  epoch: number; // Newest room key epoch this client holds
+  pendingEpoch: number; // Newest room key epoch announced by the server
+  outgoingQueue: string[]; // Messages held back until the pending room key arrives
+  historyEpochs: number[]; // Epochs whose keys are kept because the room history needs them
+}
+
+/**
+ * Represents a chat message encrypted with the room key.
+ * This is what travels inside the transport-encrypted "message" frame, so the server
+ * can relay it but cannot read it.
+ */
+export interface GroupCiphertext {
+  epoch: number; // Room key epoch used to encrypt the message
+  content: string; // The encrypted message, in base64 format
+  iv: string; // The initialization vector, in base64 format
+  authTag: string; // The authentication tag, in base64 format
+}
+
+/**
+ * Represents a direct message, or the offer of a file sent to a user, encrypted
+ * end-to-end. The signed content is encrypted under a fresh key that is wrapped to
+ * the recipient's and the sender's public keys, so the server cannot read it.
+ */
+export interface DirectCiphertext {
+  wrappedKeys: Record<string, string>; // The message key wrapped to each party's RSA key, by lower-cased username
+  content: string; // The encrypted message, in base64 format
+  iv: string; // The initialization vector, in base64 format
+  authTag: string; // The authentication tag, in base64 format
+}
+
+/**
+ * Represents the plaintext inside a room-key ciphertext: the text plus the author's
+ * Ed25519 signature, so recipients can check who wrote it without trusting the server.
+ */
+export interface SignedContent {
+  text: string; // The message text
+  signingKey: string; // The author's Ed25519 public key (PEM)
+  signature: string; // Signature over the sender, room (or recipient), epoch and text, in base64 format
+}
+
+/**
+ * Represents the client's long-lived Ed25519 signing key pair.
+ */
+export interface SigningKeyPair {
+  publicKey: string; // The public key (in PEM format)
+  privateKey: crypto.KeyObject; // The private key, used to sign outgoing messages
 }
 
 /**
@@ -38,3 +254,73 @@ export interface EncryptedData {
   iv: string; // The initialization vector used for encryption, in base64 format
   authTag: string; // The authentication tag, in base64 format, used for integrity verification
 }
+
+/**
+ * Represents the encrypted envelope that carries every frame sent after the key exchange.
+ * The whole inner message (type, sender, content, ...) is encrypted; only what is needed
+ * to pick the key and check ordering travels in the clear, and that is authenticated as AAD.
+ */
+export interface SecureFrame {
+  type: "secure";
+  keyEpoch: number; // Session key generation used to encrypt this frame
+  seq: number; // Per-direction sequence number
+  content: string; // The encrypted inner message (JSON), in base64 format
+  iv: string; // The initialization vector, in base64 format
+  authTag: string; // The authentication tag, in base64 format
+}
+
+/**
+ * Anything that can arrive on the wire: a plaintext handshake frame or an encrypted envelope.
+ */
+export type Frame = Message | SecureFrame;
+
+/**
+ * Holds the bytes received on a connection until they form a whole frame.
+ * Frames are JSON lines until both sides agree on binary framing in the hello
+ * exchange and the keys are in place; after that each frame is a 4-byte length followed by that many bytes.
+ */
+export interface FrameBuffer {
+  data: Buffer; // Bytes received but not read as frames yet
+  binary: boolean; // Whether frames are length-prefixed binary rather than JSON lines
+  maxFrameSize: number; // Largest frame accepted, in bytes
+}
+
+/**
+ * Represents the password challenge sent by the server (SCRAM-style login).
+ * It carries what the client needs to stretch the password the same way the server's
+ * verifier was made, plus a fresh nonce that makes every login unique.
+ */
+export interface AuthChallenge {
+  salt: string; // scrypt salt, in base64 format
+  cost: number; // scrypt cost parameter (N)
+  blockSize: number; // scrypt block size (r)
+  parallelization: number; // scrypt parallelization (p)
+  nonce: string; // Server nonce, in base64 format
+}
+
+/**
+ * Represents the client's answer to a password challenge.
+ * The proof shows the client knows the password without revealing it.
+ */
+export interface AuthResponse {
+  nonce: string; // Client nonce, in base64 format
+  proof: string; // Client proof, in base64 format
+}
+
+/**
+ * Represents the pair of directional AES keys derived from the X25519 handshake.
+ * Each direction has its own key so a message can never be reflected back to its sender.
+ */
+export interface SessionKeys {
+  clientToServer: Buffer; // Key for messages sent by the client
+  serverToClient: Buffer; // Key for messages sent by the server
+}
+
+/**
+ * Represents the encrypted body of a "rekey" message.
+ * The initiator sends a fresh ephemeral key; the responder answers with its own.
+ */
+export interface RekeyPayload {
+  ephemeralKey: string; // Ephemeral X25519 public key, base64-encoded DER (SPKI)
+  response: boolean; // True when answering a rekey started by the other side
+}
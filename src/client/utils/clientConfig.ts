@@ -0,0 +1,30 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ClientSettings } from "../types";
+import { getClientDataPath } from "./storage";
+
+// Settings used when the config file is missing or leaves a value out
+export const DEFAULT_CLIENT_SETTINGS: ClientSettings = {
+  downloadDir: path.join(os.homedir(), "Downloads"),
+  heartbeatIntervalSeconds: 30,
+  heartbeatTimeoutSeconds: 90,
+  maxFrameSize: 1024 * 1024,
+};
+
+/**
+ * Loads the client's settings from `client-config.json` in its data directory,
+ * if the file exists. Values missing from the file are taken from
+ * `DEFAULT_CLIENT_SETTINGS`.
+ *
+ * @returns The merged client settings
+ */
+export function loadClientSettings(): ClientSettings {
+  const configPath = getClientDataPath("client-config.json");
+  if (!fs.existsSync(configPath)) {
+    return { ...DEFAULT_CLIENT_SETTINGS };
+  }
+
+  const fileSettings = JSON.parse(fs.readFileSync(configPath, "utf8"));
+  return { ...DEFAULT_CLIENT_SETTINGS, ...fileSettings };
+}
@@ -1,6 +1,6 @@
 import * as crypto from "crypto";
 import * as fs from "fs";
-import { KeyPair, EncryptedData } from "../types";
+import { KeyPair, EncryptedData, SessionKeys, SecureFrame } from "../types";
 
 /**
  * Generates an RSA key pair for the client.
@@ -26,27 +26,67 @@ export function generateKeyPair(): KeyPair {
 }
 
 /**
- * Generates a Diffie-Hellman key pair for the client.
- * This key pair will be used for secure key exchange with the server.
+ * Generates an ephemeral X25519 key pair for the client.
+ * A fresh pair is used for every connection, so a later key compromise
+ * does not expose recorded sessions (forward secrecy).
+ *
+ * @returns The private key object and the public key as base64-encoded DER (SPKI)
  */
-export function generateDHKeyPair() {
-  const dh = crypto.createDiffieHellman(2048);
-  const publicKey = dh.generateKeys("base64");
-  return { dh, publicKey };
+export function generateDHKeyPair(): {
+  privateKey: crypto.KeyObject;
+  publicKey: string;
+} {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync("x25519");
+  return {
+    privateKey,
+    publicKey: publicKey
+      .export({ type: "spki", format: "der" })
+      .toString("base64"),
+  };
 }
 
 /**
- * Computes the shared secret using the client's private key and the server's public key.
+ * Computes the X25519 shared secret from the client's private key and the server's public key.
  *
- * @param dh - The Diffie-Hellman object containing the client's private key.
- * @param serverPublicKey - The public key received from the server.
+ * @param privateKey - The client's ephemeral X25519 private key.
+ * @param serverPublicKey - The server's ephemeral public key, base64-encoded DER (SPKI).
  * @returns The computed shared secret.
  */
 export function computeSharedSecret(
-  dh: crypto.DiffieHellman,
+  privateKey: crypto.KeyObject,
   serverPublicKey: string
-) {
-  return dh.computeSecret(serverPublicKey, "base64", "base64");
+): Buffer {
+  const publicKey = crypto.createPublicKey({
+    key: Buffer.from(serverPublicKey, "base64"),
+    format: "der",
+    type: "spki",
+  });
+  if (publicKey.asymmetricKeyType !== "x25519") {
+    throw new Error("Peer key is not an X25519 public key");
+  }
+  return crypto.diffieHellman({ privateKey, publicKey });
+}
+
+/**
+ * Derives separate AES-256 keys for each direction from the ECDH shared secret with HKDF-SHA256.
+ * The handshake transcript is used as salt, so the keys are bound to this exact exchange.
+ *
+ * @param sharedSecret - The X25519 shared secret
+ * @param transcript - The handshake transcript (both ephemeral keys and the client's identity)
+ * @returns The client-to-server and server-to-client keys
+ */
+export function deriveSessionKeys(
+  sharedSecret: Buffer,
+  transcript: string
+): SessionKeys {
+  const salt = crypto.createHash("sha256").update(transcript).digest();
+  const derive = (info: string) =>
+    Buffer.from(crypto.hkdfSync("sha256", sharedSecret, salt, info, 32));
+
+  return {
+    clientToServer: derive("secure-messaging client->server"),
+    serverToClient: derive("secure-messaging server->client"),
+  };
 }
 
 /**
@@ -55,14 +95,17 @@ export function computeSharedSecret(
  *
  * @param message - The message to be encrypted
  * @param sharedSecret - A shared secret key used for encryption
+ * @param associatedData - Optional data that is authenticated but not encrypted (AAD)
  * @returns An object containing the encrypted message, IV, and authentication tag
  */
 export function encryptMessage(
   message: string,
-  sharedSecret: Buffer
+  sharedSecret: Buffer,
+  associatedData?: Buffer
 ): EncryptedData {
   const iv = crypto.randomBytes(16); // Generate a random initialization vector (IV)
   const cipher = crypto.createCipheriv("aes-256-gcm", sharedSecret, iv); // Initialize AES cipher in GCM mode
+  if (associatedData) cipher.setAAD(associatedData); // Authenticate the associated data
 
   let encrypted = cipher.update(message, "utf8", "base64"); // Encrypt the message
   encrypted += cipher.final("base64"); // Finalize encryption
@@ -83,18 +126,21 @@ export function encryptMessage(
  * @param ivString - The initialization vector used for encryption
  * @param authTagString - The authentication tag for integrity check
  * @param sharedSecret - The shared secret key used for decryption
+ * @param associatedData - Optional data that was authenticated alongside the message (AAD)
  * @returns The decrypted message in plaintext
  */
 export function decryptMessage(
   encryptedMsg: string,
   ivString: string,
   authTagString: string,
-  sharedSecret: Buffer
+  sharedSecret: Buffer,
+  associatedData?: Buffer
 ): string {
   const iv = Buffer.from(ivString, "base64"); // Decode IV from base64
   const authTag = Buffer.from(authTagString, "base64"); // Decode auth tag from base64
   const decipher = crypto.createDecipheriv("aes-256-gcm", sharedSecret, iv); // Initialize AES decryption
   decipher.setAuthTag(authTag); // Set the authentication tag for integrity verification
+  if (associatedData) decipher.setAAD(associatedData); // Must match what the sender authenticated
 
   let decrypted = decipher.update(encryptedMsg, "base64", "utf8"); // Decrypt the message
   decrypted += decipher.final("utf8"); // Finalize decryption
@@ -103,19 +149,121 @@ export function decryptMessage(
 }
 
 /**
- * Decrypts an AES key that was encrypted using an RSA private key.
- * This is used to securely share the AES key between parties.
+ * Builds the associated data (AAD) that AES-GCM authenticates alongside an encrypted frame.
+ * It covers the envelope fields that travel in the clear, so a frame cannot be
+ * replayed into another position or key epoch without failing the authentication check.
  *
- * @param encryptedKeyBase64 - The encrypted AES key in base64 format
- * @param privateKey - The RSA private key used to decrypt the AES key
- * @returns The decrypted AES key as a Buffer
+ * @param frame - The envelope whose key epoch and sequence number are bound
+ * @returns The associated data as a Buffer
  */
-export function decryptAESKey(
-  encryptedKeyBase64: string,
+export function getAssociatedData(frame: SecureFrame): Buffer {
+  return Buffer.from(
+    JSON.stringify([frame.type, frame.keyEpoch, frame.seq]),
+    "utf8"
+  );
+}
+
+/**
+ * Encrypts one chunk of a file with AES-256-GCM. The associated data binds the
+ * chunk to its transfer and position, so chunks cannot be reordered or swapped.
+ *
+ * @param data - The chunk's bytes
+ * @param fileKey - The transfer's file key
+ * @param associatedData - The transfer ID and chunk position
+ * @returns The encrypted chunk, IV and authentication tag
+ */
+export function encryptChunk(
+  data: Buffer,
+  fileKey: Buffer,
+  associatedData: Buffer
+): EncryptedData {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", fileKey, iv);
+  cipher.setAAD(associatedData);
+
+  const encrypted = Buffer.concat([cipher.update(data), cipher.final()]);
+  return {
+    encrypted: encrypted.toString("base64"),
+    iv: iv.toString("base64"),
+    authTag: cipher.getAuthTag().toString("base64"),
+  };
+}
+
+/**
+ * Decrypts one chunk of a file encrypted with `encryptChunk`.
+ *
+ * @param chunk - The encrypted chunk
+ * @param fileKey - The transfer's file key
+ * @param associatedData - The transfer ID and chunk position
+ * @returns The chunk's bytes
+ */
+export function decryptChunk(
+  chunk: EncryptedData,
+  fileKey: Buffer,
+  associatedData: Buffer
+): Buffer {
+  const decipher = crypto.createDecipheriv(
+    "aes-256-gcm",
+    fileKey,
+    Buffer.from(chunk.iv, "base64")
+  );
+  decipher.setAuthTag(Buffer.from(chunk.authTag, "base64"));
+  decipher.setAAD(associatedData);
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(chunk.encrypted, "base64")),
+    decipher.final(),
+  ]);
+}
+
+/**
+ * Generates a fresh random room key for AES-256-GCM group encryption.
+ *
+ * @returns A 256-bit room key
+ */
+export function generateGroupKey(): Buffer {
+  return crypto.randomBytes(32);
+}
+
+/**
+ * Wraps (encrypts) a room key to a member's RSA public key using OAEP with SHA-256.
+ *
+ * @param groupKey - The room key to wrap
+ * @param publicKeyPem - The member's RSA public key in PEM format
+ * @returns The wrapped room key in base64 format
+ */
+export function wrapGroupKey(groupKey: Buffer, publicKeyPem: string): string {
+  return crypto
+    .publicEncrypt(
+      {
+        key: publicKeyPem,
+        padding: crypto.constants.RSA_PKCS1_OAEP_PADDING,
+        oaepHash: "sha256",
+      },
+      groupKey
+    )
+    .toString("base64");
+}
+
+/**
+ * Unwraps a room key that was wrapped to this client's RSA public key.
+ *
+ * @param wrappedKeyBase64 - The wrapped room key in base64 format
+ * @param privateKey - The client's RSA private key
+ * @returns The room key as a Buffer
+ */
+export function unwrapGroupKey(
+  wrappedKeyBase64: string,
   privateKey: crypto.KeyObject
 ): Buffer {
-  const encryptedKey = Buffer.from(encryptedKeyBase64, "base64"); // Decode the encrypted AES key from base64
-  return crypto.privateDecrypt(privateKey, encryptedKey); // Decrypt the AES key using the RSA private key
+  return crypto.privateDecrypt(
+    {
+      key: privateKey,
+      padding: crypto.constants.RSA_PKCS1_OAEP_PADDING,
+      oaepHash: "sha256",
+    },
+    Buffer.from(wrappedKeyBase64, "base64")
+  );
 }
 
 /**
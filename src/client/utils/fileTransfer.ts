@@ -0,0 +1,101 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+
+// Bytes of file data per chunk; must match the server
+export const FILE_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Computes the SHA-256 of a file, reading it one chunk at a time.
+ *
+ * @param filePath - Path to the file
+ * @returns The hash, hex-encoded
+ */
+export function hashFile(filePath: string): string {
+  const hash = crypto.createHash("sha256");
+  const fd = fs.openSync(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(FILE_CHUNK_SIZE);
+    let bytesRead: number;
+    while ((bytesRead = fs.readSync(fd, buffer, 0, buffer.length, null)) > 0) {
+      hash.update(buffer.subarray(0, bytesRead));
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * Reads one chunk of an open file.
+ *
+ * @param fd - The open file
+ * @param index - The chunk's position, counting from 0
+ * @returns The chunk's bytes (shorter than a full chunk at the end of the file)
+ */
+export function readFileChunk(fd: number, index: number): Buffer {
+  const buffer = Buffer.alloc(FILE_CHUNK_SIZE);
+  const bytesRead = fs.readSync(
+    fd,
+    buffer,
+    0,
+    FILE_CHUNK_SIZE,
+    index * FILE_CHUNK_SIZE
+  );
+  return buffer.subarray(0, bytesRead);
+}
+
+/**
+ * Checks that a file name from another user is a plain name, so saving it cannot
+ * reach outside the download directory.
+ *
+ * @param name - The offered file name
+ * @returns True if the name has no directory parts and no control characters
+ */
+export function isSafeFileName(name: string): boolean {
+  return (
+    typeof name === "string" &&
+    name.length > 0 &&
+    name.length <= 255 &&
+    name !== "." &&
+    name !== ".." &&
+    !/[/\\]/.test(name) &&
+    !/[\x00-\x1f\x7f]/.test(name) &&
+    path.basename(name) === name
+  );
+}
+
+/**
+ * Picks the path to save a received file to, adding a number to the name rather
+ * than overwriting an existing file.
+ *
+ * @param downloadDir - The download directory
+ * @param name - The file name, already checked with `isSafeFileName`
+ * @returns A path inside the download directory that does not exist yet
+ */
+export function getDownloadPath(downloadDir: string, name: string): string {
+  const directory = path.resolve(downloadDir);
+  const { name: base, ext } = path.parse(name);
+
+  let candidate = path.join(directory, name);
+  for (let copy = 1; fs.existsSync(candidate); copy++) {
+    candidate = path.join(directory, `${base} (${copy})${ext}`);
+  }
+
+  if (path.dirname(candidate) !== directory) {
+    throw new Error(`Refusing to save outside ${directory}`);
+  }
+  return candidate;
+}
+
+/**
+ * Formats a file size for display, e.g. "512 B", "2.1 KB" or "3.4 MB".
+ *
+ * @param bytes - The size in bytes
+ * @returns The formatted size
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
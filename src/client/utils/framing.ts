@@ -0,0 +1,115 @@
+import { FrameBuffer, SecureFrame } from "../types";
+
+// Bytes in the length prefix of a binary frame
+const LENGTH_PREFIX_SIZE = 4;
+// Bytes in a GCM authentication tag
+const AUTH_TAG_SIZE = 16;
+
+/**
+ * Creates an empty frame buffer for a new connection, starting in JSON-line mode.
+ *
+ * @param maxFrameSize - Largest frame accepted, in bytes
+ * @returns The frame buffer
+ */
+export function createFrameBuffer(maxFrameSize: number): FrameBuffer {
+  return { data: Buffer.alloc(0), binary: false, maxFrameSize };
+}
+
+/**
+ * Adds received bytes to a frame buffer.
+ *
+ * @param buffer - The connection's frame buffer
+ * @param data - The bytes just received
+ */
+export function appendFrameData(buffer: FrameBuffer, data: Buffer): void {
+  buffer.data = Buffer.concat([buffer.data, data]);
+}
+
+/**
+ * Takes the next whole frame out of a frame buffer. The size limit is checked
+ * before anything is parsed, including for a frame that has not fully arrived.
+ *
+ * @param buffer - The connection's frame buffer
+ * @returns A JSON line, the body of a binary frame, or null if no whole frame is buffered
+ * @throws If the next frame is larger than the buffer's limit
+ */
+export function readFrame(buffer: FrameBuffer): string | Buffer | null {
+  if (buffer.binary) {
+    if (buffer.data.length < LENGTH_PREFIX_SIZE) return null;
+
+    const length = buffer.data.readUInt32BE(0);
+    if (length > buffer.maxFrameSize) {
+      throw new Error(
+        `Frame exceeds the maximum size of ${buffer.maxFrameSize} bytes`
+      );
+    }
+    if (buffer.data.length < LENGTH_PREFIX_SIZE + length) return null;
+
+    const body = buffer.data.subarray(
+      LENGTH_PREFIX_SIZE,
+      LENGTH_PREFIX_SIZE + length
+    );
+    buffer.data = buffer.data.subarray(LENGTH_PREFIX_SIZE + length);
+    return body;
+  }
+
+  const end = buffer.data.indexOf(0x0a); // Newline
+  if (
+    (end === -1 && buffer.data.length > buffer.maxFrameSize) ||
+    end > buffer.maxFrameSize
+  ) {
+    throw new Error(
+      `Frame exceeds the maximum size of ${buffer.maxFrameSize} bytes`
+    );
+  }
+  if (end === -1) return null;
+
+  const line = buffer.data.subarray(0, end).toString("utf8");
+  buffer.data = buffer.data.subarray(end + 1);
+  return line;
+}
+
+/**
+ * Encodes an encrypted envelope as a length-prefixed binary frame. The body holds
+ * the key epoch and sequence number (4 bytes each), the IV length (1 byte), the IV,
+ * the authentication tag and the ciphertext, all as raw bytes instead of base64.
+ *
+ * @param frame - The encrypted envelope
+ * @returns The frame, ready to write to the socket
+ */
+export function encodeBinaryFrame(frame: SecureFrame): Buffer {
+  const iv = Buffer.from(frame.iv, "base64");
+  const authTag = Buffer.from(frame.authTag, "base64");
+  const content = Buffer.from(frame.content, "base64");
+
+  const header = Buffer.alloc(LENGTH_PREFIX_SIZE + 9);
+  header.writeUInt32BE(9 + iv.length + authTag.length + content.length, 0);
+  header.writeUInt32BE(frame.keyEpoch, 4);
+  header.writeUInt32BE(frame.seq, 8);
+  header.writeUInt8(iv.length, 12);
+  return Buffer.concat([header, iv, authTag, content]);
+}
+
+/**
+ * Decodes the body of a binary frame back into an encrypted envelope.
+ *
+ * @param body - The frame body, without its length prefix
+ * @returns The encrypted envelope
+ * @throws If the body is too short to hold the fixed fields
+ */
+export function decodeBinaryFrame(body: Buffer): SecureFrame {
+  const ivLength = body.length >= 9 ? body.readUInt8(8) : 0;
+  const contentStart = 9 + ivLength + AUTH_TAG_SIZE;
+  if (body.length < contentStart) {
+    throw new Error("Binary frame is too short");
+  }
+
+  return {
+    type: "secure",
+    keyEpoch: body.readUInt32BE(0),
+    seq: body.readUInt32BE(4),
+    iv: body.subarray(9, 9 + ivLength).toString("base64"),
+    authTag: body.subarray(9 + ivLength, contentStart).toString("base64"),
+    content: body.subarray(contentStart).toString("base64"),
+  };
+}
@@ -0,0 +1,201 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import { KeyPair, SigningKeyPair } from "../types";
+import { generateKeyPair } from "./encryption";
+import { getClientDataPath } from "./storage";
+
+/**
+ * Loads the client's Ed25519 signing key from the data directory, creating it on first run.
+ * The same key is used across sessions so other users can recognise our messages.
+ *
+ * @returns The signing key pair
+ */
+export function loadOrCreateSigningKey(): SigningKeyPair {
+  const keyPath = getClientDataPath("signing_key.pem");
+  let privateKey: crypto.KeyObject;
+
+  if (fs.existsSync(keyPath)) {
+    privateKey = crypto.createPrivateKey(fs.readFileSync(keyPath, "utf8"));
+  } else {
+    privateKey = crypto.generateKeyPairSync("ed25519").privateKey;
+    fs.writeFileSync(
+      keyPath,
+      privateKey.export({ type: "pkcs8", format: "pem" }) as string,
+      { mode: 0o600 }
+    );
+  }
+
+  const publicKey = crypto
+    .createPublicKey(privateKey)
+    .export({ type: "spki", format: "pem" }) as string;
+
+  return { publicKey, privateKey };
+}
+
+/**
+ * Builds the data a chat message signature covers: the author's username, the room,
+ * the room key epoch and the text, so a signed message cannot be re-attributed or replayed
+ * into another room or epoch.
+ *
+ * @param sender - The author's username
+ * @param room - The room the message is sent to, or "@" and the recipient for a direct message
+ * @param epoch - The room key epoch the message is encrypted under (0 for a direct message)
+ * @param text - The message text
+ * @returns The data to sign or verify
+ */
+export function getSignedData(
+  sender: string,
+  room: string,
+  epoch: number,
+  text: string
+): Buffer {
+  return Buffer.from(JSON.stringify([sender, room, epoch, text]), "utf8");
+}
+
+/**
+ * Builds the data a user signs with their Ed25519 key to vouch for their RSA public key,
+ * so whoever wraps a key to it can tell the server did not swap it for one of its own.
+ *
+ * @param publicKey - The user's RSA public key (PEM)
+ * @returns The data to sign or verify
+ */
+export function getKeyBindingData(publicKey: string): Buffer {
+  return Buffer.from(JSON.stringify(["rsa key", publicKey]), "utf8");
+}
+
+/**
+ * Builds the data a room key distributor signs for each member: the room, the epoch,
+ * the recipient, the wrapped key and any older keys wrapped for them, so a room key
+ * cannot be made up by the server or replayed into another room, epoch or member.
+ *
+ * @param room - The room the key belongs to
+ * @param epoch - The room key epoch
+ * @param recipient - The member the key is wrapped to
+ * @param wrappedKey - The room key wrapped to the member's RSA key, in base64 format
+ * @param wrappedHistoryKeys - Older room keys wrapped to the member, by epoch
+ * @returns The data to sign or verify
+ */
+export function getGroupKeySignedData(
+  room: string,
+  epoch: number,
+  recipient: string,
+  wrappedKey: string,
+  wrappedHistoryKeys: Record<string, string>
+): Buffer {
+  return Buffer.from(
+    JSON.stringify([
+      "room key",
+      room,
+      epoch,
+      recipient,
+      wrappedKey,
+      Object.entries(wrappedHistoryKeys).sort(
+        ([a], [b]) => Number(a) - Number(b)
+      ),
+    ]),
+    "utf8"
+  );
+}
+
+/**
+ * Signs data with the client's Ed25519 signing key.
+ *
+ * @param privateKey - The signing private key
+ * @param data - The data to sign
+ * @returns The signature in base64 format
+ */
+export function signData(privateKey: crypto.KeyObject, data: Buffer): string {
+  return crypto.sign(null, data, privateKey).toString("base64");
+}
+
+/**
+ * Verifies an Ed25519 signature made by another user.
+ *
+ * @param publicKeyPem - The signer's public key in PEM format
+ * @param data - The data that was signed
+ * @param signatureBase64 - The signature in base64 format
+ * @returns True if the signature is valid, false otherwise
+ */
+export function verifySignature(
+  publicKeyPem: string,
+  data: Buffer,
+  signatureBase64: string
+): boolean {
+  try {
+    return crypto.verify(
+      null,
+      data,
+      publicKeyPem,
+      Buffer.from(signatureBase64, "base64")
+    );
+  } catch {
+    return false; // Malformed key or signature
+  }
+}
+
+/**
+ * Loads the client's RSA key pair from the data directory, creating it on first run.
+ * Keeping the key across runs lets servers list it in their authorized-keys file.
+ *
+ * @returns The key pair and whether it was just created
+ */
+export function loadOrCreateKeyPair(): { keyPair: KeyPair; created: boolean } {
+  const keyPath = getClientDataPath("client_key.pem");
+
+  if (fs.existsSync(keyPath)) {
+    const privateKey = crypto.createPrivateKey(
+      fs.readFileSync(keyPath, "utf8")
+    );
+    const publicKey = crypto
+      .createPublicKey(privateKey)
+      .export({ type: "spki", format: "pem" }) as string;
+    return { keyPair: { publicKey, privateKey }, created: false };
+  }
+
+  const keyPair = generateKeyPair();
+  fs.writeFileSync(
+    keyPath,
+    keyPair.privateKey.export({ type: "pkcs8", format: "pem" }) as string,
+    { mode: 0o600 }
+  );
+  return { keyPair, created: true };
+}
+
+/**
+ * Builds the data signed for a public-key login; must match what the server verifies.
+ *
+ * @param username - The username logging in
+ * @param nonce - The nonce from the server's challenge
+ * @param serverFingerprint - Fingerprint of the server's identity key
+ * @returns The data to sign
+ */
+export function getKeyLoginData(
+  username: string,
+  nonce: string,
+  serverFingerprint: string
+): Buffer {
+  return Buffer.from(
+    JSON.stringify(["key login", username, nonce, serverFingerprint]),
+    "utf8"
+  );
+}
+
+/**
+ * Signs the key login data with the client's RSA private key (RSA-PSS with SHA-256).
+ *
+ * @param privateKey - The client's RSA private key
+ * @param data - The key login data
+ * @returns The signature in base64 format
+ */
+export function signKeyLogin(
+  privateKey: crypto.KeyObject,
+  data: Buffer
+): string {
+  return crypto
+    .sign("sha256", data, {
+      key: privateKey,
+      padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+      saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST,
+    })
+    .toString("base64");
+}
@@ -0,0 +1,93 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import { getClientDataPath } from "./storage";
+
+/**
+ * Builds the key used for a server in the known-servers file.
+ * IPv6 addresses are wrapped in brackets so the port stays unambiguous.
+ *
+ * @param host - The server's IP address or domain
+ * @param port - The server's port
+ * @returns The `host:port` key
+ */
+export function getServerKey(host: string, port: number): string {
+  return host.includes(":") ? `[${host}]:${port}` : `${host}:${port}`;
+}
+
+/**
+ * Computes the fingerprint of a public key in the same style as OpenSSH:
+ * `SHA256:` followed by the unpadded base64 SHA-256 digest of the DER-encoded key.
+ *
+ * @param publicKeyPem - The public key in PEM format
+ * @returns The fingerprint string
+ */
+export function getKeyFingerprint(publicKeyPem: string): string {
+  const der = crypto
+    .createPublicKey(publicKeyPem)
+    .export({ type: "spki", format: "der" });
+  const digest = crypto.createHash("sha256").update(der).digest("base64");
+  return `SHA256:${digest.replace(/=+$/, "")}`;
+}
+
+/**
+ * Looks up the pinned fingerprint for a server in the known-servers file.
+ * Each line holds `host:port fingerprint`; blank lines and `#` comments are ignored.
+ *
+ * @param serverKey - The `host:port` key of the server
+ * @returns The pinned fingerprint, or `null` if the server has not been seen before
+ */
+export function lookupKnownServer(serverKey: string): string | null {
+  const filePath = getClientDataPath("known_servers");
+  if (!fs.existsSync(filePath)) return null;
+
+  for (const line of fs.readFileSync(filePath, "utf8").split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) continue;
+
+    const [key, fingerprint] = trimmed.split(/\s+/);
+    if (key === serverKey && fingerprint) {
+      return fingerprint;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Pins a server's fingerprint by appending it to the known-servers file.
+ *
+ * @param serverKey - The `host:port` key of the server
+ * @param fingerprint - The fingerprint of the server's identity key
+ */
+export function rememberServer(serverKey: string, fingerprint: string): void {
+  fs.appendFileSync(
+    getClientDataPath("known_servers"),
+    `${serverKey} ${fingerprint}\n`,
+    { mode: 0o600 }
+  );
+}
+
+/**
+ * Verifies the server's signature over the key exchange.
+ *
+ * @param identityKeyPem - The server's identity public key in PEM format
+ * @param transcript - The key exchange transcript that was signed
+ * @param signatureBase64 - The signature in base64 format
+ * @returns True if the signature is valid, false otherwise
+ */
+export function verifyKeyExchangeSignature(
+  identityKeyPem: string,
+  transcript: string,
+  signatureBase64: string
+): boolean {
+  try {
+    return crypto.verify(
+      null,
+      Buffer.from(transcript, "utf8"),
+      identityKeyPem,
+      Buffer.from(signatureBase64, "base64")
+    );
+  } catch {
+    return false; // Malformed key or signature
+  }
+}
@@ -0,0 +1,56 @@
+import * as fs from "fs";
+import { getClientDataPath } from "./storage";
+
+/**
+ * Looks up the pinned signing key fingerprint of a user on a given server.
+ * Each line of the known-users file holds `host:port username fingerprint`.
+ * Usernames are matched ignoring case, as the server does, so another spelling
+ * of a pinned name cannot be pinned to a different key.
+ *
+ * @param serverKey - The `host:port` key of the server
+ * @param username - The user's name on that server
+ * @returns The pinned fingerprint, or `null` if the user has not been seen before
+ */
+export function lookupKnownUser(
+  serverKey: string,
+  username: string
+): string | null {
+  const filePath = getClientDataPath("known_users");
+  if (!fs.existsSync(filePath)) return null;
+
+  for (const line of fs.readFileSync(filePath, "utf8").split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) continue;
+
+    const [key, name, fingerprint] = trimmed.split(/\s+/);
+    if (
+      key === serverKey &&
+      name?.toLowerCase() === username.toLowerCase() &&
+      fingerprint
+    ) {
+      return fingerprint;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Pins a user's signing key fingerprint by appending it to the known-users file.
+ * The username is stored lower-cased.
+ *
+ * @param serverKey - The `host:port` key of the server
+ * @param username - The user's name on that server
+ * @param fingerprint - The fingerprint of the user's signing key
+ */
+export function rememberUser(
+  serverKey: string,
+  username: string,
+  fingerprint: string
+): void {
+  fs.appendFileSync(
+    getClientDataPath("known_users"),
+    `${serverKey} ${username.toLowerCase()} ${fingerprint}\n`,
+    { mode: 0o600 }
+  );
+}
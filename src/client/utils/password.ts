@@ -0,0 +1,146 @@
+import * as crypto from "crypto";
+import { AuthChallenge, AuthResponse } from "../types";
+
+// scrypt cost parameters for new account passwords (N = 2^14, about 16 MB of memory per hash)
+const SCRYPT_COST = 16384;
+const SCRYPT_BLOCK_SIZE = 8;
+const SCRYPT_PARALLELIZATION = 1;
+
+// Refuse challenges that would make scrypt use more than about 1 GB of memory (N * r)
+// or take many times longer than that (p)
+const MAX_SCRYPT_MEMORY_FACTOR = 1048576 * 8;
+const MAX_SCRYPT_BLOCK_SIZE = 16;
+const MAX_SCRYPT_PARALLELIZATION = 4;
+
+const hmac = (key: Buffer, data: string | Buffer): Buffer =>
+  crypto.createHmac("sha256", key).update(data).digest();
+
+/**
+ * Creates a SCRAM-style verifier for a new account password, encoded the same way as the
+ * server's `passwordVerifier` setting (`scrypt$N$r$p$salt$storedKey$serverKey`).
+ * Only the verifier is sent when registering, so the server never sees the password.
+ *
+ * @param password - The new password
+ * @returns The encoded verifier
+ */
+export function createPasswordVerifier(password: string): string {
+  const salt = crypto.randomBytes(16);
+  const saltedPassword = crypto.scryptSync(password, salt, 32, {
+    N: SCRYPT_COST,
+    r: SCRYPT_BLOCK_SIZE,
+    p: SCRYPT_PARALLELIZATION,
+  });
+
+  const storedKey = crypto
+    .createHash("sha256")
+    .update(hmac(saltedPassword, "Client Key"))
+    .digest();
+  const serverKey = hmac(saltedPassword, "Server Key");
+  saltedPassword.fill(0);
+
+  return [
+    "scrypt",
+    SCRYPT_COST,
+    SCRYPT_BLOCK_SIZE,
+    SCRYPT_PARALLELIZATION,
+    salt.toString("base64"),
+    storedKey.toString("base64"),
+    serverKey.toString("base64"),
+  ].join("$");
+}
+
+/**
+ * Builds the message both sides sign during login. It binds the proof to this user and
+ * to both nonces, so it is only valid for this one exchange.
+ *
+ * @param username - The username logging in
+ * @param serverNonce - The nonce from the server's challenge
+ * @param clientNonce - The nonce chosen by the client
+ * @returns The auth message
+ */
+export function getAuthMessage(
+  username: string,
+  serverNonce: string,
+  clientNonce: string
+): Buffer {
+  return Buffer.from(
+    JSON.stringify([username, serverNonce, clientNonce]),
+    "utf8"
+  );
+}
+
+/**
+ * Answers a SCRAM-style password challenge. The password is stretched with scrypt using
+ * the server's salt and parameters, and only a proof derived from it is sent, so the
+ * password never leaves the client.
+ *
+ * @param password - The password typed by the user
+ * @param username - The username logging in
+ * @param challenge - The challenge sent by the server
+ * @returns The response to send, and the server signature to expect back
+ */
+export function answerAuthChallenge(
+  password: string,
+  username: string,
+  challenge: AuthChallenge
+): { response: AuthResponse; expectedServerSignature: string } {
+  if (
+    challenge.blockSize > MAX_SCRYPT_BLOCK_SIZE ||
+    challenge.parallelization > MAX_SCRYPT_PARALLELIZATION ||
+    challenge.cost * challenge.blockSize > MAX_SCRYPT_MEMORY_FACTOR
+  ) {
+    throw new Error(
+      `Server asked for an unreasonable scrypt cost (N=${challenge.cost}, r=${challenge.blockSize}, p=${challenge.parallelization})`
+    );
+  }
+
+  const saltedPassword = crypto.scryptSync(
+    password,
+    Buffer.from(challenge.salt, "base64"),
+    32,
+    {
+      N: challenge.cost,
+      r: challenge.blockSize,
+      p: challenge.parallelization,
+      maxmem: 256 * challenge.cost * challenge.blockSize, // Room for the requested cost
+    }
+  );
+
+  const clientNonce = crypto.randomBytes(24).toString("base64");
+  const authMessage = getAuthMessage(username, challenge.nonce, clientNonce);
+
+  const clientKey = hmac(saltedPassword, "Client Key");
+  const storedKey = crypto.createHash("sha256").update(clientKey).digest();
+  const clientSignature = hmac(storedKey, authMessage);
+  const proof = Buffer.alloc(clientKey.length);
+  for (let i = 0; i < clientKey.length; i++) {
+    proof[i] = clientKey[i] ^ clientSignature[i];
+  }
+
+  const expectedServerSignature = hmac(
+    hmac(saltedPassword, "Server Key"),
+    authMessage
+  ).toString("base64");
+  saltedPassword.fill(0);
+
+  return {
+    response: { nonce: clientNonce, proof: proof.toString("base64") },
+    expectedServerSignature,
+  };
+}
+
+/**
+ * Compares the server's signature with the expected one in constant time.
+ *
+ * @param expected - The signature computed by the client
+ * @param received - The signature sent by the server
+ * @returns True if they match, false otherwise
+ */
+export function verifyServerSignature(
+  expected: string,
+  received: string
+): boolean {
+  const a = Buffer.from(expected, "base64");
+  const b = Buffer.from(received, "base64");
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
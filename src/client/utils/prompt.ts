@@ -80,6 +80,19 @@ export function setupLineHandler(
   rl.on("line", handler); // Trigger the handler for each line of input
 }
 
+/**
+ * Sets up a handler for every key the user presses while composing a line.
+ * The handler runs after readline has updated its line buffer.
+ *
+ * @param handler - A function that receives the name of the pressed key (e.g. "a", "return")
+ */
+export function setupKeypressHandler(handler: (key: string) => void): void {
+  readline.emitKeypressEvents(process.stdin);
+  process.stdin.on("keypress", (text: string, key?: readline.Key) =>
+    handler(key?.name || text || "")
+  );
+}
+
 /**
  * Clears the current line in the terminal and moves the cursor back to the start of the line.
  * This can be used to overwrite the current line with new content.
@@ -91,7 +104,10 @@ export function clearCurrentLine(): void {
 
 /**
  * Displays a simple prompt message (`#> `) to indicate that the system is ready for input.
+ * When a room is given, the prompt shows it instead (e.g. `#dev> `).
+ *
+ * @param room - The active room, if any
  */
-export function displayMessagePrompt(): void {
-  process.stdout.write("#> "); // Print the prompt to the console
+export function displayMessagePrompt(room: string = ""): void {
+  process.stdout.write(room ? `${room}> ` : "#> "); // Print the prompt to the console
 }
@@ -0,0 +1,65 @@
+import { Message, ProtocolFeature, SessionParameters } from "../types";
+
+// Version of the wire protocol, bumped whenever Message or the crypto scheme
+// changes in a way older builds cannot follow
+export const PROTOCOL_VERSION = 3;
+
+// Cipher suites this build can run, most preferred first
+export const CIPHER_SUITES = ["x25519-hkdf-sha256-aes-256-gcm"];
+
+// Optional features this build supports
+export const CLIENT_FEATURES: ProtocolFeature[] = [
+  "rooms",
+  "fileTransfer",
+  "binaryFraming",
+];
+
+/**
+ * Checks the server's answer to our hello: it must speak our protocol version
+ * and may only pick a cipher suite and features we offered.
+ *
+ * @param hello - The server's hello message
+ * @returns The agreed cipher suite and features
+ * @throws Error with a message for the user if the server's choice cannot be used
+ */
+export function readServerHello(hello: Message): SessionParameters {
+  const serverVersion = hello.protocolVersion;
+  if (serverVersion !== PROTOCOL_VERSION) {
+    throw new Error(
+      `This client speaks protocol version ${PROTOCOL_VERSION}, but the server speaks version ${serverVersion}. ${
+        typeof serverVersion === "number" && serverVersion > PROTOCOL_VERSION
+          ? "Please upgrade your client."
+          : "Ask the server's operator to upgrade, or use an older client."
+      }`
+    );
+  }
+
+  const cipherSuite = (hello.cipherSuites || [])[0];
+  if (!CIPHER_SUITES.includes(cipherSuite)) {
+    throw new Error(
+      `The server chose a cipher suite this client does not support (${cipherSuite}).`
+    );
+  }
+
+  return {
+    cipherSuite,
+    features: CLIENT_FEATURES.filter((feature) =>
+      (hello.features || []).includes(feature)
+    ),
+  };
+}
+
+/**
+ * Describes the agreed session parameters for the key exchange transcript, so
+ * a man-in-the-middle cannot quietly downgrade them in the plaintext hello.
+ *
+ * @param session - The agreed session parameters
+ * @returns The version, cipher suite and features as one line
+ */
+export function describeSession(session: SessionParameters): string {
+  return [
+    PROTOCOL_VERSION,
+    session.cipherSuite,
+    [...session.features].sort().join(","),
+  ].join(";");
+}
@@ -0,0 +1,18 @@
+import * as fs from "fs";
+import { getClientDataPath } from "./storage";
+
+/**
+ * Records a security event (replayed, reordered or tampered frames, and similar)
+ * in the client's security log and warns the user on the console.
+ *
+ * @param message - The event description
+ */
+export function logSecurityEvent(message: string): void {
+  const timestamp = new Date().toISOString();
+  console.warn(`[SECURITY] ${message}`);
+  fs.appendFileSync(
+    getClientDataPath("security.log"),
+    `[${timestamp}] ${message}\n`,
+    { mode: 0o600 }
+  );
+}
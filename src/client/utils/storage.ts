@@ -0,0 +1,18 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+// Directory in the user's home folder that holds the client's persistent state
+const CLIENT_DATA_DIR = path.join(os.homedir(), ".secure-messaging");
+
+/**
+ * Returns the path of a file in the client's data directory, creating the directory
+ * (readable by the owner only) if it does not exist yet.
+ *
+ * @param fileName - The name of the file inside the data directory
+ * @returns The absolute path to the file
+ */
+export function getClientDataPath(fileName: string): string {
+  fs.mkdirSync(CLIENT_DATA_DIR, { recursive: true, mode: 0o700 });
+  return path.join(CLIENT_DATA_DIR, fileName);
+}
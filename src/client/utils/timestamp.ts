@@ -20,3 +20,24 @@ export function getTimestamp(): string {
   const milliseconds = String(now.getMilliseconds()).padStart(3, "0"); // Format milliseconds to 3 digits
   return `${timestamp}.${milliseconds}`; // Return timestamp in the desired format
 }
+
+/**
+ * Formats a server's retry-after hint for display, in the largest whole unit
+ * that fits (rounded up).
+ *
+ * @param seconds - How long to wait, in seconds
+ * @returns The wait as text, e.g. "45 seconds" or "5 minutes"
+ */
+export function formatRetryAfter(seconds: number): string {
+  const units: [string, number][] = [
+    ["day", 86400],
+    ["hour", 3600],
+    ["minute", 60],
+  ];
+  const [unit, size] = units.find(([, size]) => seconds >= size) || [
+    "second",
+    1,
+  ];
+  const count = Math.ceil(seconds / size);
+  return `${count} ${unit}${count === 1 ? "" : "s"}`;
+}
@@ -19,10 +19,10 @@ process.on("unhandledRejection", (reason, promise) => {
  * and then starts the server using those configurations.
  */
 (async () => {
-  // Get server configuration (port and password) from the user
-  const { port, password } = await getServerConfig();
+  // Get server configuration (port and password) from the user, plus file-based settings
+  const { port, password, settings } = await getServerConfig();
 
   // Create and start the SecureMessagingServer with the configured port and password
-  const server = new SecureMessagingServer(port);
+  const server = new SecureMessagingServer(port, settings);
   await server.start(password);
 })();
@@ -1,71 +1,258 @@
 // src/server/messagingServer.ts
 import * as net from "net";
 import * as crypto from "crypto";
-import { randomBytes } from "crypto";
-import { Client, Message } from "./types";
+import {
+  Account,
+  AuthResponse,
+  Ban,
+  Client,
+  CommandInput,
+  ErrorCode,
+  FileTransfer,
+  Frame,
+  GroupMember,
+  HistoryEntry,
+  Message,
+  Mute,
+  PasswordVerifier,
+  PresenceState,
+  QueuedMessage,
+  RekeyPayload,
+  Room,
+  ProtocolFeature,
+  SecureFrame,
+  ServerCommand,
+  ServerIdentity,
+  ServerSettings,
+  SessionParameters,
+  TrackedMessage,
+} from "./types";
 import { isPortInUse } from "./utils/port";
 import { askQuestion } from "./utils/prompt";
-import { decryptAES, encryptAES } from "./utils/encryption";
+import {
+  decryptAES,
+  encryptAES,
+  generateDHKeyPair,
+  computeSharedSecret,
+  deriveSessionKeys,
+  secureEraseKey,
+  getAssociatedData,
+} from "./utils/encryption";
+import { logError, logSecurityEvent } from "./utils/logger";
 import { getTimestamp } from "./utils/timestamp";
+import {
+  getKeyFingerprint,
+  loadOrCreateIdentity,
+  signKeyExchange,
+} from "./utils/identity";
+import { DEFAULT_SERVER_SETTINGS } from "./utils/serverConfig";
+import {
+  createPasswordVerifier,
+  encodePasswordVerifier,
+  parsePasswordVerifier,
+  createAuthChallenge,
+  getAuthMessage,
+  verifyClientProof,
+  computeServerSignature,
+  isAcceptableVerifier,
+  verifyPassword,
+} from "./utils/password";
+import { loadAccounts, saveAccounts } from "./utils/accounts";
+import {
+  isKeyAuthorized,
+  getKeyLoginData,
+  verifyKeyLoginSignature,
+} from "./utils/authorizedKeys";
+import { parseCommand, hasPermission, outranks } from "./utils/commands";
+import { isValidUsername, USERNAME_RULES } from "./utils/username";
+import {
+  createFrameBuffer,
+  appendFrameData,
+  readFrame,
+  encodeBinaryFrame,
+  decodeBinaryFrame,
+} from "./utils/framing";
+import {
+  PROTOCOL_VERSION,
+  negotiateSession,
+  describeSession,
+} from "./utils/protocol";
+import {
+  loadBans,
+  saveBans,
+  getBanTarget,
+  findBan,
+  parseDuration,
+  formatDuration,
+} from "./utils/moderation";
+import {
+  loadOrCreateStorageKey,
+  getHistoryPath,
+  loadHistory,
+  saveHistory,
+  pruneHistory,
+  getCiphertextEpoch,
+} from "./utils/history";
+import {
+  loadOfflineMessages,
+  saveOfflineMessages,
+  pruneOfflineMessages,
+} from "./utils/offlineMessages";
 import * as fs from "fs";
+import * as path from "path";
 
-// Rate limiting map to track login attempts
-const loginAttempts: Map<string, { count: number; lastAttempt: number }> =
-  new Map();
+// Rate limiting map to track login attempts (connections and failed passwords per address)
+const loginAttempts: Map<
+  string,
+  { count: number; lastAttempt: number; failures: number }
+> = new Map();
 const RATE_LIMIT_WINDOW = 60000; // 1 minute window
 const MAX_ATTEMPTS = 5;
-
-// Define a secure logging function
-function logError(message: string) {
-  const timestamp = new Date().toISOString();
-  fs.appendFileSync("server-errors.log", `[${timestamp}] ${message}\n`);
-}
+const LOGIN_FAILURE_DELAY = 1000; // Delay after the first failed password, doubled for each further failure
+const MAX_LOGIN_FAILURE_DELAY = 30000;
+// Names that only the server may use, so users cannot fake system notices (compared case-insensitively)
+const RESERVED_USERNAMES = ["server", "system"];
+const REKEY_CHECK_INTERVAL = 30000; // How often sessions are checked against the rekey time limit
+const OFFLINE_PRUNE_INTERVAL = 60 * 60 * 1000; // How often expired queued direct messages are dropped
+const DEFAULT_ROOM = "#lobby"; // Room every client joins after logging in; never removed
+const ROOM_NAME_PATTERN = /^#[a-z0-9_-]{1,32}$/;
+const MAX_TRACKED_MESSAGES = 10000; // Chat messages remembered for read receipts
+const FILE_CHUNK_SIZE = 64 * 1024; // Bytes of file data per chunk; must match the client
+const MAX_FILE_CHUNK_LENGTH = Math.ceil((FILE_CHUNK_SIZE * 4) / 3) + 256; // A full chunk in base64, with its IV and tag
+const MAX_TRANSFERS_PER_CLIENT = 3; // Files a client may have on the server at once, uploading or waiting for answers
+const MAX_BUFFERED_FILE_BYTES = 64 * 1024 * 1024; // Most file data the server holds for all clients together
+const FILE_TRANSFER_TTL = 10 * 60 * 1000; // How long recipients can accept a file
 
 // Define the SecureMessagingServer class to handle all messaging logic
 export class SecureMessagingServer {
   private server: net.Server; // Net server to handle incoming socket connections
-  private clients: Map<string, Client> = new Map(); // Map to store active clients
-  private serverKeyPair: { publicKey: string; privateKey: crypto.KeyObject }; // RSA key pair for encryption
-  private serverPassword: string | null = null; // Optional server password for authentication
-
-  constructor(private port: number) {
-    // Generate RSA key pair for server's encryption/decryption
-    const { publicKey, privateKey } = crypto.generateKeyPairSync("rsa", {
-      modulusLength: 2048, // RSA modulus length (security strength)
-      publicKeyEncoding: {
-        type: "spki", // Standard format for public key
-        format: "pem", // PEM format for easy handling
-      },
-      privateKeyEncoding: {
-        type: "pkcs8", // Standard format for private key
-        format: "pem", // PEM format
-      },
-    });
+  private clients: Map<string, Client> = new Map(); // Logged-in clients by lower-cased username, so names differing only in case clash
+  private identity: ServerIdentity; // Long-lived identity key used to sign key exchanges
+  private authMode: "none" | "password" | "publicKey" = "none"; // How guests get in
+  private passwordVerifier: PasswordVerifier | null = null; // Verifier of the optional server password
+  private authorizedKeysPath: string; // Allowlist of client keys per username (public-key mode)
+  private accounts: Map<string, Account>; // Registered accounts, keyed by lower-cased username
+  private accountsPath: string; // File the account store is persisted to
+  private rooms: Map<string, Room> = new Map(); // Chat rooms by name
+  private commands: Map<string, ServerCommand> = new Map(); // Slash commands by name
+  private bans: Ban[]; // Banned usernames, key fingerprints and addresses
+  private bansPath: string; // File the ban list is persisted to
+  private mutes: Map<string, Mute> = new Map(); // Mutes by lower-cased username
+  private storageKey: Buffer; // Key the room history is encrypted with on disk
+  private historyDir: string; // Directory with one history file per room
+  private offlineMessages: Map<string, QueuedMessage[]> = new Map(); // Direct messages for offline accounts, by lower-cased name
+  private offlineMessagesPath: string; // File the offline message queue is persisted to
+  private trackedMessages: Map<string, TrackedMessage> = new Map(); // Recent chat messages by ID, for read receipts
+  private fileTransfers: Map<string, FileTransfer> = new Map(); // Files being sent, by transfer ID
+  private pendingSockets: Set<net.Socket> = new Set(); // Connections that have not logged in yet
 
-    this.serverKeyPair = {
-      publicKey,
-      privateKey: crypto.createPrivateKey(privateKey), // Private key as KeyObject
-    };
+  constructor(
+    private port: number,
+    private settings: ServerSettings = DEFAULT_SERVER_SETTINGS
+  ) {
+    // Load the server's identity key, creating it on first run so clients can pin it
+    this.identity = loadOrCreateIdentity(
+      path.join(this.settings.dataDir, "server_identity.pem")
+    );
+
+    // Load registered accounts; their names can only be used with their password
+    this.accountsPath = path.join(this.settings.dataDir, "accounts.json");
+    this.accounts = loadAccounts(this.accountsPath);
+    this.promoteConfiguredAdmins();
+    this.authorizedKeysPath = path.join(
+      this.settings.dataDir,
+      "authorized_keys"
+    );
+
+    // Load the ban list; bans survive restarts
+    this.bansPath = path.join(this.settings.dataDir, "bans.json");
+    this.bans = loadBans(this.bansPath);
+
+    // Room history is kept on disk, encrypted with a key only the server holds
+    this.storageKey = loadOrCreateStorageKey(
+      path.join(this.settings.dataDir, "storage.key")
+    );
+    this.historyDir = path.join(this.settings.dataDir, "history");
+
+    // Direct messages waiting for offline users, encrypted with the same key
+    this.offlineMessagesPath = path.join(
+      this.settings.dataDir,
+      "offline_messages"
+    );
+    try {
+      this.offlineMessages = loadOfflineMessages(
+        this.offlineMessagesPath,
+        this.storageKey
+      );
+      this.pruneOfflineMessages();
+    } catch (error) {
+      logError(
+        `Could not read queued direct messages: ${(error as Error).message}`
+      );
+    }
+
+    // The default room always exists so every client has somewhere to start
+    this.rooms.set(DEFAULT_ROOM, this.createRoom(DEFAULT_ROOM));
+
+    this.registerCommands();
 
     this.server = net.createServer((socket) => {
       const clientAddress = socket.remoteAddress || "unknown";
 
+      // Refuse banned addresses before doing any work for them
+      if (findBan(this.bans, { ip: clientAddress })) {
+        logSecurityEvent(
+          `Refused connection from banned address ${clientAddress}`
+        );
+        this.closeWithError(
+          socket,
+          null,
+          "banned",
+          "You are banned from this server."
+        );
+        return;
+      }
+
+      // Bound the connections that are still in the handshake or logging in
+      if (this.pendingSockets.size >= this.settings.maxPendingConnections) {
+        logSecurityEvent(
+          `Refused connection from ${clientAddress}: too many connections waiting to log in`
+        );
+        this.closeWithError(
+          socket,
+          null,
+          "server_busy",
+          "Server is busy.",
+          this.settings.handshakeTimeoutSeconds // Slots free up as handshakes finish or time out
+        );
+        return;
+      }
+
       // Rate limiting logic
       const now = Date.now();
       const attemptData = loginAttempts.get(clientAddress) || {
         count: 0,
         lastAttempt: 0,
+        failures: 0,
       };
 
       if (now - attemptData.lastAttempt < RATE_LIMIT_WINDOW) {
         attemptData.count++;
         if (attemptData.count > MAX_ATTEMPTS) {
-          socket.write("Too many login attempts. Please try again later.\n");
-          socket.destroy();
+          this.closeWithError(
+            socket,
+            null,
+            "rate_limited",
+            "Too many login attempts.",
+            Math.ceil(
+              (RATE_LIMIT_WINDOW - (now - attemptData.lastAttempt)) / 1000
+            )
+          );
           return;
         }
       } else {
         attemptData.count = 1;
+        attemptData.failures = 0; // A quiet window forgives earlier failed passwords
       }
 
       attemptData.lastAttempt = now;
@@ -84,32 +271,68 @@ export class SecureMessagingServer {
       process.exit(1);
     }
 
-    // If password is provided in arguments, use it; otherwise, prompt user for password
-    if (passwordFromArgs !== undefined) {
-      if (passwordFromArgs.trim() === "") {
-        this.serverPassword = null;
+    if (this.settings.authMode === "publicKey") {
+      // Only clients whose key is in the authorized-keys file may log in; no shared password
+      this.authMode = "publicKey";
+    } else if (this.settings.passwordVerifier) {
+      // A verifier from the config file; the password itself is never known to the server
+      this.passwordVerifier = parsePasswordVerifier(
+        this.settings.passwordVerifier
+      );
+      this.authMode = "password";
+    } else {
+      // If password is provided in arguments, use it; otherwise, prompt user for password
+      let password: string;
+      if (passwordFromArgs !== undefined) {
+        password = passwordFromArgs.trim();
       } else {
-        this.serverPassword = passwordFromArgs.trim();
+        // Ask user to set a password if none provided
+        password = await askQuestion(
+          "Set server password (leave blank for none): "
+        );
       }
-    } else {
-      // Ask user to set a password if none provided
-      this.serverPassword = await askQuestion(
-        "Set server password (leave blank for none): "
-      );
-      if (this.serverPassword === "") {
-        this.serverPassword = null;
+
+      // Keep only a verifier of the password, never the password itself
+      if (password !== "") {
+        this.passwordVerifier = createPasswordVerifier(password);
+        this.authMode = "password";
+        console.log(
+          `To skip the password prompt next time, add this to server-config.json:\n  "passwordVerifier": "${encodePasswordVerifier(
+            this.passwordVerifier
+          )}"`
+        );
       }
     }
 
     // Start the server and log status
     this.server.listen(this.port, () => {
-      const status = this.serverPassword
-        ? "with password protection"
-        : "without password";
+      const status =
+        this.authMode === "publicKey"
+          ? `with public-key authentication (${this.authorizedKeysPath})`
+          : this.authMode === "password"
+            ? "with password protection"
+            : "without password";
       console.log(
         `Secure messaging server started on port ${this.port} ${status}`
       );
+      console.log(`Server identity fingerprint: ${this.identity.fingerprint}`);
     });
+
+    // Periodically rekey sessions that have been using the same keys for too long
+    setInterval(() => {
+      this.clients.forEach((client) => this.maybeRekey(client));
+    }, REKEY_CHECK_INTERVAL);
+
+    // Drop expired queued messages, including those for accounts that never log in again
+    setInterval(() => this.pruneOfflineMessages(), OFFLINE_PRUNE_INTERVAL);
+
+    // Ping quiet clients and drop the ones whose connection died without closing
+    if (this.settings.heartbeatIntervalSeconds > 0) {
+      setInterval(
+        () => this.checkHeartbeats(),
+        this.settings.heartbeatIntervalSeconds * 1000
+      );
+    }
   }
 
   // Handle incoming connections from clients
@@ -119,27 +342,118 @@ export class SecureMessagingServer {
       `[${connectionTimestamp}] New connection from ${socket.remoteAddress}:${socket.remotePort}`
     );
 
-    let buffer = ""; // Buffer to store incoming data
+    const frameBuffer = createFrameBuffer(this.settings.maxFrameSize); // Incoming data until it forms whole frames
     let client: Client | null = null; // Client object for each connected user
+    let session: SessionParameters | null = null; // What was agreed in the hello exchange
+
+    // The connection counts as pending until it logs in, and must start the
+    // handshake before the deadline
+    this.pendingSockets.add(socket);
+    const handshakeDeadline = setTimeout(() => {
+      logSecurityEvent(`Handshake from ${socket.remoteAddress} timed out`);
+      this.closeWithError(socket, null, "timeout", "Handshake timed out.");
+    }, this.settings.handshakeTimeoutSeconds * 1000);
 
     socket.on("data", (data) => {
-      try {
-        buffer += data.toString(); // Add new data to the buffer
+      if (socket.writableEnded) return; // Closing; the rest is not read
+      if (client) {
+        client.lastSeenAt = Date.now(); // Any data shows the connection is alive
+      }
 
-        let messageEndIndex: number;
-        // Process complete messages by checking for newline delimiter
-        while ((messageEndIndex = buffer.indexOf("\n")) !== -1) {
-          const rawMessage = buffer.substring(0, messageEndIndex); // Get the message up to the newline
-          buffer = buffer.substring(messageEndIndex + 1); // Keep remaining data in buffer
+      try {
+        appendFrameData(frameBuffer, data); // Add new data to the buffer
 
+        let rawFrame: string | Buffer | null;
+        // Process every complete frame; the size limit is checked before parsing
+        while ((rawFrame = readFrame(frameBuffer)) !== null) {
           try {
-            const message: Message = JSON.parse(rawMessage); // Parse the raw message
+            const message: Frame =
+              typeof rawFrame === "string"
+                ? JSON.parse(rawFrame)
+                : decodeBinaryFrame(rawFrame);
+
+            // The client opens with its protocol version and features
+            if (message.type === "hello" && !client && !session) {
+              try {
+                session = negotiateSession(message, this.getServerFeatures());
+              } catch (error) {
+                clearTimeout(handshakeDeadline);
+                logSecurityEvent(
+                  `Refused hello from ${socket.remoteAddress}: ${
+                    (error as Error).message
+                  }`
+                );
+                this.closeWithError(
+                  socket,
+                  null,
+                  "unsupported_version",
+                  (error as Error).message
+                );
+                return;
+              }
+              this.sendHello(socket, session);
+            }
+            // Next comes the username and public key
+            else if (message.type === "publicKey" && !client) {
+              clearTimeout(handshakeDeadline);
+              // Clients from before the hello exchange start with their key
+              if (!session) {
+                this.closeWithError(
+                  socket,
+                  null,
+                  "unsupported_version",
+                  `Unsupported client: this server speaks protocol version ${PROTOCOL_VERSION}. Please upgrade your client.`
+                );
+                return;
+              }
+              // Clients from before the ECDH handshake only send an RSA key
+              if (!message.ephemeralKey) {
+                this.closeWithError(
+                  socket,
+                  null,
+                  "unsupported_version",
+                  "Unsupported key exchange: this server requires an X25519 (ECDH) handshake. Please upgrade your client."
+                );
+                return;
+              }
+
+              // Refuse names reserved for system notices
+              if (!isValidUsername(message.sender)) {
+                this.closeWithError(
+                  socket,
+                  null,
+                  "invalid_username",
+                  USERNAME_RULES
+                );
+                return;
+              }
+              if (this.isUsernameReserved(message.sender)) {
+                this.sendUsernameRejectedMessage(socket, "username_reserved");
+                return;
+              }
+
+              // Refuse banned names and keys
+              if (
+                findBan(this.bans, {
+                  username: message.sender,
+                  fingerprint: getKeyFingerprint(message.content),
+                })
+              ) {
+                logSecurityEvent(
+                  `Refused banned user ${message.sender} from ${socket.remoteAddress}`
+                );
+                this.closeWithError(
+                  socket,
+                  null,
+                  "banned",
+                  "You are banned from this server."
+                );
+                return;
+              }
 
-            // First message should contain username and public key
-            if (message.type === "publicKey" && !client) {
               // Check if username is already taken
               if (this.isUsernameTaken(message.sender)) {
-                this.sendUsernameTakenMessage(socket); // Notify the client if username is taken
+                this.sendUsernameRejectedMessage(socket, "username_taken"); // Notify the client if username is taken
                 return;
               }
 
@@ -148,98 +462,111 @@ export class SecureMessagingServer {
                 socket,
                 username: message.sender,
                 publicKey: message.content,
+                signingKey: message.signingKey,
+                keySignature: message.signature,
                 authenticated: false, // Not authenticated yet
+                keyEpoch: 0,
+                sendSeq: 0,
+                receiveSeq: 0,
+                messagesSinceRekey: 0,
+                lastRekeyAt: Date.now(),
+                rooms: new Set(),
+                connectedAt: connectionTimestamp,
+                presence: "online",
+                statusText: "",
+                lastSeenAt: Date.now(),
+                session,
+                connectionId: crypto.randomUUID(),
+                framing: session.features.includes("binaryFraming")
+                  ? "binary"
+                  : "json",
               };
 
               // Setup secure connection for the client (key exchange)
-              this.setupSecureConnection(client);
+              try {
+                this.setupSecureConnection(client, message.ephemeralKey);
+                // From here on the client sends binary frames, if agreed
+                frameBuffer.binary = client.framing === "binary";
+              } catch (error) {
+                logError(
+                  `Key exchange with ${socket.remoteAddress} failed: ${
+                    (error as Error).message
+                  }`
+                );
+                this.closeWithError(
+                  socket,
+                  null,
+                  "handshake_failed",
+                  "Key exchange failed."
+                );
+                return;
+              }
 
-              // Store client temporarily in the clients map
-              this.clients.set(message.sender, client);
+              // The name is only taken once the client has logged in
+              const pendingClient = client;
+              client.loginDeadline = setTimeout(
+                () => this.expireLogin(pendingClient),
+                this.settings.loginTimeoutSeconds * 1000
+              );
 
-              // If password is required, ask for authentication
-              if (this.serverPassword) {
+              // In public-key mode every client must first prove it holds a listed key.
+              // Otherwise registered names need the account password and guests need
+              // the server password, if one is set
+              const account = this.findAccount(message.sender);
+              if (this.authMode === "publicKey") {
+                this.requestKeyAuthentication(client);
+              } else if (account) {
+                this.requestAuthentication(client, account);
+              } else if (this.authMode === "password") {
                 this.requestAuthentication(client); // Ask for password if needed
               } else {
                 // No password required, authenticate automatically
-                client.authenticated = true;
-                this.confirmAuthentication(client, true); // Confirm successful authentication
-                this.announceClientJoined(client); // Announce client has joined the chat
+                this.admitClient(client);
               }
             }
-            // Handle authentication message (for password verification)
-            else if (
-              message.type === "auth" &&
-              client &&
-              !client.authenticated
-            ) {
-              // Decrypt the password using the shared secret AES key
-              const password = decryptAES(
-                message.content,
-                message.iv || "",
-                message.authTag || "",
-                client.sharedSecret as Buffer
+            // Everything after the key exchange arrives in the encrypted envelope
+            else if (message.type === "secure" && client) {
+              this.handleSecureMessage(
+                client,
+                this.decryptFromClient(client, message)
               );
-
-              // Check if password matches the server's password
-              const isAuthenticated = password === this.serverPassword;
-              client.authenticated = isAuthenticated;
-
-              // Send authentication result to client
-              this.confirmAuthentication(client, isAuthenticated);
-
-              if (isAuthenticated) {
-                this.announceClientJoined(client); // Announce client if authenticated
-              } else {
-                // Disconnect client if authentication fails
-                setTimeout(() => {
-                  socket.end();
-                }, 1000); // Give time for the message to be sent before disconnecting
-              }
             }
-            // Handle regular messages
-            else if (
-              message.type === "message" &&
-              client &&
-              client.authenticated
-            ) {
-              if (message.content === "/leave") {
-                // Handle "/leave" command to disconnect client
-                this.handleClientDisconnect(client);
-                socket.end();
-                return;
-              }
-
-              // Decrypt the incoming message from the client
-              const decryptedContent = decryptAES(
-                message.content,
-                message.iv || "",
-                message.authTag || "",
-                client.sharedSecret as Buffer
+            // Plaintext frames are only allowed for the handshake
+            else {
+              logSecurityEvent(
+                `Rejected plaintext ${message.type} frame from ${socket.remoteAddress}`
               );
+            }
 
-              // Create a broadcast message and send it to all clients
-              const broadcastMsg: Message = {
-                type: "message",
-                sender: message.sender,
-                content: decryptedContent,
-                timestamp: getTimestamp(),
-              };
-
-              this.broadcastMessage(broadcastMsg); // Send broadcast message
+            // Rekey once this session's keys hit the message limit
+            if (client && client.authenticated) {
+              this.maybeRekey(client);
             }
           } catch (error) {
             const err = error as Error; // Explicitly cast error to Error
             console.error(`[${getTimestamp()}] Error processing message:`, err); // Log error if message processing fails
+            // Let the client know its frame went nowhere; the connection stays open
+            if (client?.sendKey && !socket.writableEnded) {
+              this.sendError(
+                client,
+                "bad_frame",
+                "A message could not be processed."
+              );
+            }
           }
         }
       } catch (error) {
+        // An oversized frame: nothing more from this connection can be trusted
         const err = error as Error; // Explicitly cast error to Error
-        logError(
-          `Error processing data from ${socket.remoteAddress}: ${err.message}`
+        logSecurityEvent(
+          `Closing connection from ${socket.remoteAddress}: ${err.message}`
+        );
+        this.closeWithError(
+          socket,
+          client,
+          "too_large",
+          `${err.message}. Connection will be terminated.`
         );
-        socket.write("Invalid data received. Connection will be terminated.\n");
-        socket.destroy();
       }
     });
 
@@ -261,6 +588,9 @@ export class SecureMessagingServer {
 
     // Handle socket close event
     socket.on("close", () => {
+      clearTimeout(handshakeDeadline);
+      this.pendingSockets.delete(socket);
+
       console.log(
         `[${getTimestamp()}] Connection closed from ${
           client?.username || "<unknown>"
@@ -273,132 +603,2865 @@ export class SecureMessagingServer {
     });
   }
 
-  // Check if a username is already taken by another client
-  private isUsernameTaken(username: string): boolean {
-    return this.clients.has(username); // Return true if username exists in the clients map
+  // Handle a frame that arrived in the encrypted envelope
+  private handleSecureMessage(client: Client, message: Message): void {
+    // Answer heartbeats; a pong needs no answer, since any frame counts as a sign of life
+    if (message.type === "ping") {
+      this.sendToClient(client, {
+        type: "pong",
+        sender: "Server",
+        content: "",
+        id: message.id,
+        timestamp: getTimestamp(),
+      });
+    }
+    // Handle authentication message (for password verification)
+    else if (message.type === "auth") {
+      this.handleAuthResponse(client, JSON.parse(message.content));
+    }
+    // Handle the signature answering a public-key login challenge
+    else if (message.type === "keyAuth" && !client.authenticated) {
+      this.handleKeyAuth(client, message.content);
+    }
+    // Handle account requests
+    else if (message.type === "register" && client.authenticated) {
+      this.handleRegister(client, message.content);
+    } else if (message.type === "login" && client.authenticated) {
+      this.handleLogin(client, message.content);
+    } else if (message.type === "passwd" && client.authenticated) {
+      this.handlePasswd(client, message.content);
+    }
+    // Handle a freshly wrapped room key from the distributing member
+    else if (message.type === "groupKey" && client.authenticated) {
+      this.relayGroupKey(client, message);
+    }
+    // Handle a request for the key to encrypt a direct message or file to
+    else if (message.type === "keyRequest" && client.authenticated) {
+      this.sendUserKey(client, message.username || "");
+    }
+    // Handle regular messages
+    else if (message.type === "message" && client.authenticated) {
+      if (this.rejectIfMuted(client)) return;
+
+      const room = this.rooms.get(message.room || "");
+      if (!room || !room.members.has(client)) {
+        this.sendNotice(client, `You are not in ${message.room}.`);
+        return;
+      }
+
+      // The content is ciphertext under the room key, which the server cannot
+      // read and relays as-is. The sender is always the authenticated username,
+      // never what the client claims
+      const broadcastMsg: Message = {
+        type: "message",
+        sender: client.username,
+        content: message.content,
+        room: room.name,
+        timestamp: getTimestamp(),
+        id: this.trackMessage({
+          author: client.username,
+          authorId: this.getAuthorId(client),
+          room: room.name,
+        }),
+      };
+
+      this.broadcastToRoom(room, broadcastMsg); // Send broadcast message
+      this.recordHistory(room, broadcastMsg);
+      this.sendAck(client, message.clientId, broadcastMsg.id as string);
+    }
+    // Handle private messages to a single user
+    else if (message.type === "direct" && client.authenticated) {
+      if (this.rejectIfMuted(client)) return;
+      this.relayDirectMessage(client, message);
+    }
+    // Handle edits and deletions of earlier messages
+    else if (message.type === "edit" && client.authenticated) {
+      if (this.rejectIfMuted(client)) return;
+      this.editMessage(client, message);
+    } else if (message.type === "delete" && client.authenticated) {
+      this.deleteMessage(client, message.id || "");
+    }
+    // Handle file transfers
+    else if (message.type === "fileOffer" && client.authenticated) {
+      if (this.rejectIfMuted(client)) return;
+      this.handleFileOffer(client, message);
+    } else if (message.type === "fileChunk" && client.authenticated) {
+      this.handleFileChunk(client, message);
+    } else if (message.type === "fileComplete" && client.authenticated) {
+      this.handleFileComplete(client, message.id || "");
+    } else if (
+      (message.type === "fileAccept" || message.type === "fileDecline") &&
+      client.authenticated
+    ) {
+      this.answerFileOffer(client, message.id || "", message.type);
+    }
+    // Handle read receipts
+    else if (message.type === "read" && client.authenticated) {
+      this.relayReadReceipt(client, message.id || "");
+    }
+    // Handle typing notifications
+    else if (message.type === "typing" && client.authenticated) {
+      this.relayTyping(client, message.room || "");
+    }
+    // Handle slash commands
+    else if (message.type === "command" && client.authenticated) {
+      this.handleCommand(client, message);
+    }
+    // Handle session rekey requests and responses
+    else if (message.type === "rekey" && client.authenticated) {
+      this.handleRekey(client, message);
+    }
   }
 
-  // Send a "username taken" message to the client
-  private sendUsernameTakenMessage(socket: net.Socket): void {
-    const msg: Message = {
-      type: "usernameResult",
+  // Send a client the public key of a user they want to write to: the connected
+  // user's, or for an offline account the one it last logged in with. Without a key
+  // the client is told why and gets an empty answer so it can drop the message
+  private sendUserKey(client: Client, username: string): void {
+    const recipient = this.findClient(username);
+    const account = recipient ? undefined : this.findAccount(username);
+    const keys = recipient || account;
+    if (!keys?.publicKey) {
+      this.sendNotice(
+        client,
+        account
+          ? `${account.username} is offline.`
+          : `No user named ${username} is online.`
+      );
+    }
+
+    this.sendToClient(client, {
+      type: "userKey",
       sender: "Server",
-      content: "username_taken",
+      content: keys?.publicKey || "",
+      username: keys?.username || username,
+      signingKey: keys?.signingKey,
+      signature: keys?.keySignature,
+      timestamp: getTimestamp(),
+    });
+  }
+
+  // Relay a direct message to its recipient, and echo it back to the sender so
+  // they can see it was delivered
+  private relayDirectMessage(client: Client, message: Message): void {
+    const recipientName = message.username || "";
+    const recipient = this.findClient(recipientName);
+    if (!recipient) {
+      const account = this.findAccount(recipientName);
+      if (account && this.settings.offlineQueueLimit > 0) {
+        this.queueDirectMessage(client, account, message);
+      } else {
+        this.sendNotice(
+          client,
+          account
+            ? `${recipientName} is offline.`
+            : `No user named ${recipientName} is online.`
+        );
+      }
+      return;
+    }
+
+    // The content is the signed text, encrypted to the recipient; the sender is
+    // always the authenticated username, never what the client claims
+    const directMsg: Message = {
+      type: "direct",
+      sender: client.username,
+      content: message.content,
+      username: recipient.username,
       timestamp: getTimestamp(),
+      id: this.trackMessage({
+        author: client.username,
+        authorId: this.getAuthorId(client),
+        recipient: recipient.username,
+      }),
     };
 
-    socket.write(JSON.stringify(msg) + "\n"); // Send message to client
+    this.sendToClient(recipient, directMsg);
+    this.maybeRekey(recipient);
+    if (recipient !== client) {
+      this.sendToClient(client, directMsg);
+    }
+    this.sendAck(client, message.clientId, directMsg.id as string);
 
-    // Give client time to process the message before disconnecting
-    setTimeout(() => {
-      socket.end(); // Close the connection
-    }, 1000);
+    // Let the sender know if the message may not be read for a while
+    if (recipient !== client && recipient.presence !== "online") {
+      this.sendNotice(
+        client,
+        `${recipient.username} ${this.describePresence(recipient)}.`
+      );
+    }
   }
 
-  // Request authentication from the client (password required)
-  private requestAuthentication(client: Client): void {
-    const authReqMsg: Message = {
-      type: "authResult",
-      sender: "Server",
-      content: "password_required",
+  // Keep a direct message for a registered user who is offline, up to the queue limit
+  private queueDirectMessage(
+    client: Client,
+    account: Account,
+    message: Message
+  ): void {
+    this.pruneOfflineMessages();
+    const queue = this.getOfflineQueue(account.username);
+    if (queue.length >= this.settings.offlineQueueLimit) {
+      this.sendNotice(
+        client,
+        `${account.username} is offline and has too many messages waiting.`
+      );
+      return;
+    }
+
+    const id = this.trackMessage({
+      author: client.username,
+      authorId: this.getAuthorId(client),
+      recipient: account.username,
+    });
+    queue.push({
+      id,
+      sender: client.username,
+      recipient: account.username,
+      content: message.content,
       timestamp: getTimestamp(),
-    };
+      queuedAt: Date.now(),
+    });
+    this.offlineMessages.set(account.username.toLowerCase(), queue);
+    this.saveOfflineMessages();
+    this.sendAck(client, message.clientId, id, "queued");
+
+    this.sendNotice(
+      client,
+      `${account.username} is offline. Your message will be delivered when they next log in.`
+    );
+  }
+
+  // Hand a client the direct messages queued for their account
+  private deliverOfflineMessages(client: Client): void {
+    if (!client.account) return;
+
+    const queue = this.getOfflineQueue(client.account);
+    if (!this.offlineMessages.delete(client.account.toLowerCase())) return;
+    this.saveOfflineMessages();
+    if (queue.length === 0) return;
 
-    client.socket.write(JSON.stringify(authReqMsg) + "\n"); // Send authentication request
+    this.sendNotice(
+      client,
+      `${queue.length} direct message${
+        queue.length === 1 ? " was" : "s were"
+      } sent while you were away:`
+    );
+    queue.forEach((queued) =>
+      this.sendToClient(client, {
+        type: "direct",
+        sender: queued.sender,
+        content: queued.content,
+        username: client.username,
+        timestamp: queued.timestamp,
+        id: queued.id,
+        queued: true,
+      })
+    );
   }
 
-  // Confirm authentication result to the client
-  private confirmAuthentication(client: Client, success: boolean): void {
-    const result = success ? "authenticated" : "authentication_failed";
+  // Change (or with null, remove) a direct message still waiting in the offline queue
+  private changeQueuedMessage(
+    tracked: TrackedMessage,
+    id: string,
+    change: (queued: QueuedMessage) => QueuedMessage | null
+  ): void {
+    const account = (tracked.recipient || "").toLowerCase();
+    const queue = this.offlineMessages.get(account);
+    if (!queue || !queue.some((queued) => queued.id === id)) return;
 
-    const authResultMsg: Message = {
-      type: "authResult",
+    const changed = queue
+      .map((queued) => (queued.id === id ? change(queued) : queued))
+      .filter((queued): queued is QueuedMessage => queued !== null);
+    this.offlineMessages.set(account, changed);
+    this.saveOfflineMessages();
+  }
+
+  // The messages queued for an account, without the ones that have expired
+  private getOfflineQueue(account: string): QueuedMessage[] {
+    const maxAgeDays = this.settings.offlineMessageMaxAgeDays;
+    const cutoff =
+      maxAgeDays > 0 ? Date.now() - maxAgeDays * 24 * 60 * 60 * 1000 : 0;
+    return (this.offlineMessages.get(account.toLowerCase()) || []).filter(
+      (queued) => queued.queuedAt >= cutoff
+    );
+  }
+
+  // Drop expired messages from every offline queue, saving only if any went
+  private pruneOfflineMessages(): void {
+    if (
+      pruneOfflineMessages(
+        this.offlineMessages,
+        this.settings.offlineMessageMaxAgeDays
+      ) > 0
+    ) {
+      this.saveOfflineMessages();
+    }
+  }
+
+  // Write the offline message queue to disk
+  private saveOfflineMessages(): void {
+    try {
+      saveOfflineMessages(
+        this.offlineMessagesPath,
+        this.offlineMessages,
+        this.storageKey
+      );
+    } catch (error) {
+      logError(
+        `Could not save queued direct messages: ${(error as Error).message}`
+      );
+    }
+  }
+
+  // Change a client's presence and tell everyone who shares a room with them
+  private setPresence(
+    client: Client,
+    presence: PresenceState,
+    statusText: string
+  ): void {
+    if (presence === client.presence && statusText === client.statusText) {
+      return;
+    }
+    client.presence = presence;
+    client.statusText = statusText;
+
+    // Each member is told once, however many rooms they share with the client
+    const recipients = new Set<Client>([client]);
+    client.rooms.forEach((roomName) =>
+      (this.rooms.get(roomName) as Room).members.forEach((member) =>
+        recipients.add(member)
+      )
+    );
+    recipients.forEach((recipient) => {
+      if (!recipient.authenticated || recipient.disconnected) return;
+      this.sendToClient(recipient, {
+        type: "presence",
+        sender: client.username,
+        content: statusText,
+        presence,
+        timestamp: getTimestamp(),
+      });
+    });
+  }
+
+  // Describe a client's presence for notices, e.g. "is away: lunch"
+  private describePresence(client: Client): string {
+    const description =
+      client.presence === "dnd"
+        ? "does not want to be disturbed"
+        : client.presence === "away"
+          ? "is away"
+          : "is online";
+    return `${description}${client.statusText ? `: ${client.statusText}` : ""}`;
+  }
+
+  // Tell the other members of a room that a client is typing there. Members who
+  // asked not to be disturbed are left out
+  private relayTyping(client: Client, roomName: string): void {
+    const room = this.rooms.get(roomName);
+    if (!room || !room.members.has(client)) return;
+
+    room.members.forEach((member) => {
+      if (
+        member === client ||
+        !member.authenticated ||
+        member.disconnected ||
+        member.presence === "dnd"
+      ) {
+        return;
+      }
+      this.sendToClient(member, {
+        type: "typing",
+        sender: client.username,
+        content: "",
+        room: room.name,
+        timestamp: getTimestamp(),
+      });
+    });
+  }
+
+  // Give a chat message a unique ID and remember who it came from and went to,
+  // forgetting the oldest messages once too many are tracked
+  private trackMessage(tracked: TrackedMessage): string {
+    const id = crypto.randomUUID();
+    this.trackedMessages.set(id, tracked);
+    if (this.trackedMessages.size > MAX_TRACKED_MESSAGES) {
+      const oldest = this.trackedMessages.keys().next().value as string;
+      this.trackedMessages.delete(oldest);
+    }
+    return id;
+  }
+
+  // Who a message's author is, independent of the name they go by: their
+  // account if they are logged in to one, otherwise their connection
+  private getAuthorId(client: Client): string {
+    return client.account
+      ? `account:${client.account.toLowerCase()}`
+      : `connection:${client.connectionId}`;
+  }
+
+  // Acknowledge a chat message to its sender once it has been passed on
+  // ("delivered") or kept for an offline recipient ("queued")
+  private sendAck(
+    client: Client,
+    clientId: string | undefined,
+    id: string,
+    status: "delivered" | "queued" = "delivered"
+  ): void {
+    this.sendToClient(client, {
+      type: "ack",
       sender: "Server",
-      content: result,
+      content: status,
+      id,
+      clientId,
+      timestamp: getTimestamp(),
+    });
+  }
+
+  // Pass a read receipt back to the message's author, if the reader really
+  // received the message and the author is still online
+  private relayReadReceipt(client: Client, id: string): void {
+    const tracked = this.trackedMessages.get(id);
+    if (!tracked || tracked.authorId === this.getAuthorId(client)) return;
+
+    const isRecipient = tracked.room
+      ? client.rooms.has(tracked.room)
+      : tracked.recipient?.toLowerCase() === client.username.toLowerCase();
+    if (!isRecipient) return;
+
+    const author = this.findClient(tracked.author);
+    if (!author || this.getAuthorId(author) !== tracked.authorId) return;
+
+    this.sendToClient(author, {
+      type: "read",
+      sender: client.username,
+      content: "",
+      id,
+      room: tracked.room,
+      timestamp: getTimestamp(),
+    });
+  }
+
+  // Replace the text of a message with a new version from its author. Room
+  // messages arrive encrypted again under the room key, direct messages signed again
+  private editMessage(client: Client, message: Message): void {
+    const id = message.id || "";
+    const tracked = this.trackedMessages.get(id);
+    if (!tracked) {
+      this.sendNotice(client, "That message can no longer be edited.");
+      return;
+    }
+    if (tracked.authorId !== this.getAuthorId(client)) {
+      this.sendError(
+        client,
+        "not_permitted",
+        "You can only edit your own messages."
+      );
+      return;
+    }
+
+    const edited: Message = {
+      type: "edit",
+      sender: client.username,
+      content: message.content,
+      id,
+      room: tracked.room,
+      username: tracked.recipient,
       timestamp: getTimestamp(),
     };
 
-    client.socket.write(JSON.stringify(authResultMsg) + "\n"); // Send authentication result
+    if (tracked.room) {
+      const room = this.rooms.get(tracked.room);
+      if (!room || !room.members.has(client)) {
+        this.sendNotice(client, `You are not in ${tracked.room}.`);
+        return;
+      }
+      this.broadcastToRoom(room, edited);
+
+      // History keeps the new version; it may be under a newer room key
+      const epoch = getCiphertextEpoch(message.content);
+      this.changeHistoryEntry(room, id, (entry) =>
+        epoch === null
+          ? entry
+          : { ...entry, content: message.content, epoch, edited: true }
+      );
+    } else {
+      this.changeQueuedMessage(tracked, id, (queued) => ({
+        ...queued,
+        content: message.content,
+      }));
+      this.sendToParticipants(tracked, edited);
+    }
   }
 
-  // Announce that a client has successfully joined the chat
-  private announceClientJoined(client: Client): void {
-    console.log(`[${getTimestamp()}] ${client.username} has joined the chat`);
+  // Remove a message for everyone who received it. Authors can delete their own
+  // messages; moderators can also delete other people's room messages
+  private deleteMessage(client: Client, id: string): void {
+    const tracked = this.trackedMessages.get(id);
+    if (!tracked) {
+      this.sendNotice(client, "That message can no longer be deleted.");
+      return;
+    }
+    const isAuthor = tracked.authorId === this.getAuthorId(client);
+    if (
+      !isAuthor &&
+      !(tracked.room && hasPermission(client.role, "moderator"))
+    ) {
+      this.sendError(
+        client,
+        "not_permitted",
+        "You can only delete your own messages."
+      );
+      return;
+    }
 
-    this.broadcastMessage({
-      type: "join",
-      sender: "Server",
-      content: `${client.username} has joined the chat`,
+    this.trackedMessages.delete(id); // A deleted message cannot be edited or read
+    const deleted: Message = {
+      type: "delete",
+      sender: tracked.author,
+      content: client.username, // Who deleted the message
+      id,
+      room: tracked.room,
+      username: tracked.recipient,
       timestamp: getTimestamp(),
+    };
+
+    if (tracked.room) {
+      const room = this.rooms.get(tracked.room);
+      if (!room) return;
+      this.broadcastToRoom(room, deleted);
+      this.changeHistoryEntry(room, id, () => null);
+    } else {
+      this.changeQueuedMessage(tracked, id, () => null);
+      this.sendToParticipants(tracked, deleted);
+    }
+  }
+
+  // Send an update about a direct message to its author and recipient, if online
+  private sendToParticipants(tracked: TrackedMessage, message: Message): void {
+    const participants = new Set(
+      [tracked.author, tracked.recipient || ""].map((name) =>
+        this.findClient(name)
+      )
+    );
+    participants.forEach((participant) => {
+      if (participant) this.sendToClient(participant, message);
     });
   }
 
-  // Setup a secure connection by exchanging AES encryption keys
-  private setupSecureConnection(client: Client): void {
-    const clientPublicKey = crypto.createPublicKey(client.publicKey); // Create public key from client's public key
+  // Start receiving a file for a room or a user, answering the sender with
+  // fileAccept or fileDecline. Nobody sees the offer until every chunk has arrived
+  private handleFileOffer(client: Client, message: Message): void {
+    const id = message.id || "";
+    const size = message.size || 0;
+    const refuse = (reason: string) =>
+      this.sendToClient(client, {
+        type: "fileDecline",
+        sender: "Server",
+        content: reason,
+        id,
+        timestamp: getTimestamp(),
+      });
 
-    // Generate a random AES key (shared secret) for encrypted communication
-    const aesKey = randomBytes(32); // 256-bit AES key
+    if (this.settings.maxFileSize <= 0) {
+      refuse("File transfer is turned off on this server.");
+      return;
+    }
+    if (!client.session.features.includes("fileTransfer")) {
+      refuse("File transfer was not agreed for this session.");
+      return;
+    }
+    if (!id || this.fileTransfers.has(id)) {
+      refuse("Invalid transfer ID.");
+      return;
+    }
+    if (!Number.isInteger(size) || size <= 0) {
+      refuse("Invalid file size.");
+      return;
+    }
+    if (size > this.settings.maxFileSize) {
+      refuse(
+        `Files can be at most ${Math.floor(this.settings.maxFileSize / 1024)} KB.`
+      );
+      return;
+    }
+    // Uploaded files stay in memory until every recipient has answered, so
+    // they count against the limits as much as files still being uploaded
+    const transfers = Array.from(this.fileTransfers.values());
+    const sending = transfers.filter((transfer) => transfer.sender === client);
+    if (sending.length >= MAX_TRANSFERS_PER_CLIENT) {
+      refuse("Wait for your other files to be accepted or declined.");
+      return;
+    }
+    const buffered = transfers.reduce(
+      (total, transfer) => total + transfer.size,
+      0
+    );
+    if (buffered + size > MAX_BUFFERED_FILE_BYTES) {
+      refuse("The server is holding too many files. Try again later.");
+      return;
+    }
 
-    // Encrypt the AES key using the client's public RSA key
-    const encryptedKey = crypto.publicEncrypt(clientPublicKey, aesKey);
+    // The file goes to a room the sender is in, or to a user who is online
+    let recipient: Client | undefined;
+    if (message.room) {
+      const room = this.rooms.get(message.room);
+      if (!room || !room.members.has(client)) {
+        refuse(`You are not in ${message.room}.`);
+        return;
+      }
+    } else {
+      recipient = this.findClient(message.username || "");
+      if (!recipient) {
+        refuse(`No user named ${message.username} is online.`);
+        return;
+      }
+      if (!recipient.session.features.includes("fileTransfer")) {
+        refuse(`${recipient.username}'s client cannot receive files.`);
+        return;
+      }
+    }
 
-    // Store the shared AES key for future communication with this client
-    client.sharedSecret = aesKey;
+    const expiry = setTimeout(
+      () => this.expireFileTransfer(id),
+      FILE_TRANSFER_TTL
+    );
+    expiry.unref(); // Pending transfers do not keep the server alive
+    this.fileTransfers.set(id, {
+      id,
+      sender: client,
+      room: message.room,
+      recipient: recipient?.username,
+      offer: message.content,
+      size,
+      chunks: [],
+      complete: false,
+      awaiting: new Set(),
+      expiry,
+    });
 
-    // Send the encrypted AES key to the client
-    const keyExchangeMsg: Message = {
-      type: "publicKey",
+    // Let the sender start uploading
+    this.sendToClient(client, {
+      type: "fileAccept",
       sender: "Server",
-      content: encryptedKey.toString("base64"),
+      content: "",
+      id,
       timestamp: getTimestamp(),
-    };
+    });
+  }
 
-    client.socket.write(JSON.stringify(keyExchangeMsg) + "\n"); // Send encrypted key
+  // Store the next encrypted chunk of a file being uploaded
+  private handleFileChunk(client: Client, message: Message): void {
+    const transfer = this.fileTransfers.get(message.id || "");
+    if (!transfer || transfer.sender !== client || transfer.complete) return;
+
+    // Chunks must arrive in order and add up to no more than the announced size
+    const expectedChunks = Math.ceil(transfer.size / FILE_CHUNK_SIZE);
+    if (
+      message.chunk !== transfer.chunks.length ||
+      transfer.chunks.length >= expectedChunks ||
+      message.content.length > MAX_FILE_CHUNK_LENGTH
+    ) {
+      this.cancelFileTransfer(transfer, "The file did not match its offer.");
+      return;
+    }
+    transfer.chunks.push(message.content);
   }
 
-  // Broadcast a message to all connected clients
-  private broadcastMessage(message: Message): void {
-    this.clients.forEach((client) => {
-      // Only send to authenticated clients with a shared secret
-      if (client.sharedSecret && client.authenticated) {
-        if (message.type === "message") {
-          // Encrypt the message for the client using their shared AES key
-          const { encrypted, iv, authTag } = encryptAES(
-            message.content,
-            client.sharedSecret
-          );
-          const encryptedMsg: Message = {
-            ...message,
-            content: encrypted,
-            iv,
-            authTag,
-          };
-          client.socket.write(JSON.stringify(encryptedMsg) + "\n"); // Send encrypted message
-        } else {
-          // Send non-encrypted system messages
-          client.socket.write(JSON.stringify(message) + "\n");
-        }
+  // Pass the offer on once the whole file has been uploaded
+  private handleFileComplete(client: Client, id: string): void {
+    const transfer = this.fileTransfers.get(id);
+    if (!transfer || transfer.sender !== client || transfer.complete) return;
+
+    if (transfer.chunks.length !== Math.ceil(transfer.size / FILE_CHUNK_SIZE)) {
+      this.cancelFileTransfer(transfer, "The file did not match its offer.");
+      return;
+    }
+    transfer.complete = true;
+
+    const offer: Message = {
+      type: "fileOffer",
+      sender: client.username,
+      content: transfer.offer,
+      id,
+      room: transfer.room,
+      username: transfer.recipient,
+      size: transfer.size,
+      timestamp: getTimestamp(),
+    };
+    const recipients = transfer.room
+      ? Array.from(this.rooms.get(transfer.room)?.members || [])
+      : [this.findClient(transfer.recipient || "")];
+    recipients.forEach((recipient) => {
+      if (
+        recipient &&
+        recipient !== client &&
+        recipient.authenticated &&
+        !recipient.disconnected &&
+        recipient.session.features.includes("fileTransfer")
+      ) {
+        transfer.awaiting.add(recipient);
+        this.sendToClient(recipient, offer);
       }
     });
+    if (transfer.awaiting.size === 0) this.removeFileTransfer(transfer); // Nobody to send it to
   }
 
-  // Handle client disconnection (cleanup and broadcast)
-  private handleClientDisconnect(client: Client): void {
-    if (client.disconnected) return; // Skip if already disconnected
-    client.disconnected = true; // Mark client as disconnected
+  // Send the file to a recipient who accepted it, and tell the sender either way
+  private answerFileOffer(
+    client: Client,
+    id: string,
+    answer: "fileAccept" | "fileDecline"
+  ): void {
+    const transfer = this.fileTransfers.get(id);
+    if (!transfer || !transfer.complete || !transfer.awaiting.has(client)) {
+      this.sendNotice(client, "That file is no longer available.");
+      return;
+    }
 
-    console.log(`${client.username} has left the chat`);
-    this.clients.delete(client.username); // Remove from active clients
-
-    // Broadcast a "leave" message to all clients if the client was authenticated
-    if (client.authenticated) {
-      this.broadcastMessage({
-        type: "leave",
-        sender: "SERVER",
-        content: `${client.username} has left the chat`,
+    // Each recipient answers once; the chunks are freed after the last answer
+    transfer.awaiting.delete(client);
+    if (transfer.awaiting.size === 0) this.removeFileTransfer(transfer);
+
+    if (answer === "fileAccept") {
+      transfer.chunks.forEach((chunk, index) =>
+        this.sendToClient(client, {
+          type: "fileChunk",
+          sender: transfer.sender.username,
+          content: chunk,
+          id,
+          chunk: index,
+          timestamp: getTimestamp(),
+        })
+      );
+      this.sendToClient(client, {
+        type: "fileComplete",
+        sender: transfer.sender.username,
+        content: "",
+        id,
         timestamp: getTimestamp(),
       });
+      this.maybeRekey(client);
     }
+
+    if (!transfer.sender.disconnected) {
+      this.sendToClient(transfer.sender, {
+        type: answer,
+        sender: client.username,
+        content: "",
+        id,
+        timestamp: getTimestamp(),
+      });
+    }
+  }
+
+  // Forget a transfer and free its chunks
+  private removeFileTransfer(transfer: FileTransfer): void {
+    clearTimeout(transfer.expiry);
+    this.fileTransfers.delete(transfer.id);
+  }
+
+  // Drop a transfer nobody finished answering in time, telling the sender and
+  // everyone still holding the offer that it is gone
+  private expireFileTransfer(id: string): void {
+    const transfer = this.fileTransfers.get(id);
+    if (!transfer) return;
+
+    this.removeFileTransfer(transfer);
+    [transfer.sender, ...transfer.awaiting].forEach((client) => {
+      if (client.disconnected) return;
+      this.sendToClient(client, {
+        type: "fileCancel",
+        sender: "Server",
+        content: "The file expired on the server.",
+        id,
+        timestamp: getTimestamp(),
+      });
+    });
+  }
+
+  // Drop a transfer and tell its sender why
+  private cancelFileTransfer(transfer: FileTransfer, reason: string): void {
+    this.removeFileTransfer(transfer);
+    if (transfer.sender.disconnected) return;
+
+    this.sendToClient(transfer.sender, {
+      type: "fileDecline",
+      sender: "Server",
+      content: reason,
+      id: transfer.id,
+      timestamp: getTimestamp(),
+    });
+  }
+
+  // Find an authenticated client by username, ignoring case
+  private findClient(username: string): Client | undefined {
+    const client = this.clients.get(username.toLowerCase());
+    return client && client.authenticated && !client.disconnected
+      ? client
+      : undefined;
+  }
+
+  // Check if a username is already taken by another client
+  private isUsernameTaken(username: string): boolean {
+    return this.clients.has(username.toLowerCase()); // Names differing only in case count as the same
+  }
+
+  // Features this server offers in the hello exchange with its current settings
+  private getServerFeatures(): ProtocolFeature[] {
+    const features: ProtocolFeature[] = ["rooms"];
+    if (this.settings.maxFileSize > 0) features.push("fileTransfer");
+    if (this.settings.binaryFraming) features.push("binaryFraming");
+    return features;
+  }
+
+  // Answer a client's hello with the protocol version and what was agreed
+  private sendHello(socket: net.Socket, session: SessionParameters): void {
+    const msg: Message = {
+      type: "hello",
+      sender: "Server",
+      content: "",
+      protocolVersion: PROTOCOL_VERSION,
+      cipherSuites: [session.cipherSuite],
+      features: session.features,
+      timestamp: getTimestamp(),
+    };
+
+    socket.write(JSON.stringify(msg) + "\n");
+  }
+
+  // Check if a username is reserved for the server itself
+  private isUsernameReserved(username: string): boolean {
+    return RESERVED_USERNAMES.includes(username.trim().toLowerCase());
+  }
+
+  // Send a "username taken" or "username reserved" message to the client
+  private sendUsernameRejectedMessage(
+    socket: net.Socket,
+    result: "username_taken" | "username_reserved"
+  ): void {
+    const msg: Message = {
+      type: "usernameResult",
+      sender: "Server",
+      content: result,
+      timestamp: getTimestamp(),
+    };
+
+    socket.write(JSON.stringify(msg) + "\n"); // Send message to client
+
+    // Give client time to process the message before disconnecting
+    setTimeout(() => {
+      socket.end(); // Close the connection
+    }, 1000);
+  }
+
+  // Look up a registered account by username (case-insensitive)
+  private findAccount(username: string): Account | undefined {
+    return this.accounts.get(username.toLowerCase());
+  }
+
+  // Request authentication from the client with a fresh password challenge,
+  // either for an account or (without one) for the server password
+  private requestAuthentication(client: Client, account?: Account): void {
+    const verifier = account
+      ? parsePasswordVerifier(account.passwordVerifier)
+      : (this.passwordVerifier as PasswordVerifier);
+    client.authChallenge = createAuthChallenge(verifier);
+    client.loginAccount = account?.username;
+
+    const authReqMsg: Message = {
+      type: "authChallenge",
+      sender: "Server",
+      content: JSON.stringify(client.authChallenge),
+      username: account?.username,
+      timestamp: getTimestamp(),
+    };
+
+    this.sendToClient(client, authReqMsg); // Send authentication request
+  }
+
+  // Check the client's answer to the password challenge
+  private handleAuthResponse(client: Client, response: AuthResponse): void {
+    const challenge = client.authChallenge;
+    const account = client.loginAccount
+      ? this.findAccount(client.loginAccount)
+      : undefined;
+    client.authChallenge = undefined; // Each challenge can only be answered once
+    client.loginAccount = undefined;
+
+    const verifier = account
+      ? parsePasswordVerifier(account.passwordVerifier)
+      : this.passwordVerifier;
+    if (!challenge || !verifier) return;
+
+    const authMessage = getAuthMessage(
+      account ? account.username : client.username,
+      challenge.nonce,
+      response.nonce
+    );
+    const isAuthenticated = verifyClientProof(
+      verifier,
+      authMessage,
+      response.proof
+    );
+    if (isAuthenticated) {
+      const attemptData = loginAttempts.get(
+        client.socket.remoteAddress || "unknown"
+      );
+      if (attemptData) attemptData.failures = 0;
+
+      // Prove to the client that we hold the verifier too
+      const serverSignature = computeServerSignature(verifier, authMessage);
+
+      if (client.authenticated && account) {
+        this.completeLogin(client, account, serverSignature); // /login during a session
+        return;
+      }
+
+      this.admitClient(client, account, serverSignature);
+      return;
+    }
+
+    this.failLogin(client, account ? account.username : client.username);
+  }
+
+  // Ask the client to prove it holds a key listed for its username
+  private requestKeyAuthentication(client: Client): void {
+    if (
+      !isKeyAuthorized(
+        this.authorizedKeysPath,
+        client.username,
+        client.publicKey
+      )
+    ) {
+      logSecurityEvent(
+        `Refused unlisted key for ${client.username} from ${client.socket.remoteAddress}`
+      );
+      this.sendToClient(client, {
+        type: "authResult",
+        sender: "Server",
+        content: "key_not_authorized",
+        timestamp: getTimestamp(),
+      });
+
+      // Give client time to process the message before disconnecting
+      setTimeout(() => {
+        client.socket.end();
+      }, 1000);
+      return;
+    }
+
+    client.keyChallenge = crypto.randomBytes(24).toString("base64");
+    this.sendToClient(client, {
+      type: "keyChallenge",
+      sender: "Server",
+      content: client.keyChallenge,
+      timestamp: getTimestamp(),
+    });
+  }
+
+  // Check the client's signature over the public-key login challenge
+  private handleKeyAuth(client: Client, signature: string): void {
+    const nonce = client.keyChallenge;
+    client.keyChallenge = undefined; // Each challenge can only be answered once
+    if (!nonce) return;
+
+    const isAuthenticated = verifyKeyLoginSignature(
+      client.publicKey,
+      getKeyLoginData(client.username, nonce, this.identity.fingerprint),
+      signature
+    );
+    if (!isAuthenticated) {
+      this.failLogin(client, client.username);
+      return;
+    }
+
+    const attemptData = loginAttempts.get(
+      client.socket.remoteAddress || "unknown"
+    );
+    if (attemptData) attemptData.failures = 0;
+
+    // A registered name still needs its account password on top of the key
+    const account = this.findAccount(client.username);
+    if (account) {
+      this.requestAuthentication(client, account);
+      return;
+    }
+
+    this.admitClient(client);
+  }
+
+  // Let a client in once it has logged in. Only now does it take its name, so
+  // a connection that never logs in cannot keep the name from its owner
+  private admitClient(
+    client: Client,
+    account?: Account,
+    serverSignature?: string
+  ): void {
+    clearTimeout(client.loginDeadline);
+    this.pendingSockets.delete(client.socket);
+
+    // Someone else may have logged in under the same name in the meantime
+    if (this.isUsernameTaken(client.username)) {
+      this.sendToClient(client, {
+        type: "usernameResult",
+        sender: "Server",
+        content: "username_taken",
+        timestamp: getTimestamp(),
+      });
+      setTimeout(() => client.socket.end(), 1000);
+      return;
+    }
+
+    client.authenticated = true;
+    client.account = account?.username;
+    client.role = account?.role;
+    if (account) {
+      client.username = account.username; // The account's spelling, whatever case was typed
+      this.rememberAccountKeys(client, account);
+    }
+    this.clients.set(client.username.toLowerCase(), client);
+    this.confirmAuthentication(client, serverSignature);
+    this.announceClientJoined(client);
+  }
+
+  // Keep the keys an account last logged in with, so direct messages and files
+  // sent while the user is offline can be encrypted to them
+  private rememberAccountKeys(client: Client, account: Account): void {
+    if (
+      account.publicKey === client.publicKey &&
+      account.signingKey === client.signingKey &&
+      account.keySignature === client.keySignature
+    ) {
+      return;
+    }
+
+    account.publicKey = client.publicKey;
+    account.signingKey = client.signingKey;
+    account.keySignature = client.keySignature;
+    saveAccounts(this.accountsPath, this.accounts);
+  }
+
+  // Disconnect a client that has not logged in by its deadline
+  private expireLogin(client: Client): void {
+    if (client.authenticated || client.disconnected) return;
+
+    logSecurityEvent(
+      `Login for ${client.username} from ${client.socket.remoteAddress} timed out`
+    );
+    this.closeWithError(client.socket, client, "timeout", "Login timed out.");
+  }
+
+  // Send an error and close the connection; the error is encrypted once the
+  // session keys exist
+  private closeWithError(
+    socket: net.Socket,
+    client: Client | null,
+    code: ErrorCode,
+    content: string,
+    retryAfter?: number
+  ): void {
+    if (client?.sendKey) {
+      this.sendError(client, code, content, retryAfter);
+    } else {
+      socket.write(
+        JSON.stringify(this.createError(code, content, retryAfter)) + "\n"
+      );
+    }
+    socket.end();
+    setTimeout(() => socket.destroy(), 1000); // Even if the peer never closes its side
+  }
+
+  // Reject a failed login, answering more and more slowly to stop guessing
+  private failLogin(client: Client, username: string): void {
+    const address = client.socket.remoteAddress || "unknown";
+    const delay = this.recordFailedLogin(address);
+    logSecurityEvent(
+      `Failed login for ${username} from ${address}; answering in ${delay}ms`
+    );
+
+    setTimeout(() => {
+      if (client.disconnected) return;
+
+      // A failed /login leaves the session as it was
+      if (client.authenticated) {
+        this.sendAccountResult(client, "Login failed. Incorrect password.");
+        return;
+      }
+
+      // Disconnect client if authentication fails
+      this.closeWithError(
+        client.socket,
+        client,
+        "auth_failed",
+        "Authentication failed. Incorrect password."
+      );
+    }, delay);
+  }
+
+  // Register the client's current username as an account
+  private handleRegister(client: Client, encodedVerifier: string): void {
+    if (client.account) {
+      this.sendAccountResult(
+        client,
+        `You are already logged in to the account ${client.account}.`
+      );
+      return;
+    }
+    if (this.findAccount(client.username)) {
+      this.sendAccountResult(
+        client,
+        `${client.username} is already registered. Use /login to log in to it.`
+      );
+      return;
+    }
+    if (!isValidUsername(client.username)) {
+      this.sendError(client, "invalid_username", USERNAME_RULES);
+      return;
+    }
+
+    let verifier: PasswordVerifier;
+    try {
+      verifier = parsePasswordVerifier(encodedVerifier);
+    } catch {
+      this.sendAccountResult(client, "Registration failed: invalid verifier.");
+      return;
+    }
+    if (!isAcceptableVerifier(verifier)) {
+      this.sendAccountResult(
+        client,
+        "Registration failed: the password verifier is too weak."
+      );
+      return;
+    }
+
+    // Admins are only ever made by the operator, through the admins setting
+    const account: Account = {
+      username: client.username,
+      passwordVerifier: encodedVerifier,
+      role: "user",
+      createdAt: getTimestamp(),
+      publicKey: client.publicKey,
+      signingKey: client.signingKey,
+      keySignature: client.keySignature,
+    };
+    this.accounts.set(account.username.toLowerCase(), account);
+    saveAccounts(this.accountsPath, this.accounts);
+
+    client.account = account.username;
+    client.role = account.role;
+    console.log(
+      `[${getTimestamp()}] ${account.username} registered (role: ${account.role})`
+    );
+
+    this.sendAccountResult(
+      client,
+      `Registered ${account.username} (role: ${account.role}). This name now requires your password.`,
+      account.username
+    );
+  }
+
+  // Make the accounts named in the admins setting admins. This only happens at
+  // startup, so registering a listed name does not grant admin by itself
+  private promoteConfiguredAdmins(): void {
+    let changed = false;
+    this.settings.admins.forEach((name) => {
+      const account = this.findAccount(name);
+      if (!account) {
+        logError(`Admin ${name} from the server config has no account`);
+      } else if (account.role !== "admin") {
+        account.role = "admin";
+        changed = true;
+        console.log(`[${getTimestamp()}] ${account.username} is now an admin`);
+      }
+    });
+    if (changed) saveAccounts(this.accountsPath, this.accounts);
+  }
+
+  // Start logging the client in to a registered account during a session
+  private handleLogin(client: Client, username: string): void {
+    const account = this.findAccount(username.trim());
+    if (!account) {
+      this.sendAccountResult(client, `There is no account named ${username}.`);
+      return;
+    }
+    if (client.account === account.username) {
+      this.sendAccountResult(
+        client,
+        `You are already logged in as ${account.username}.`
+      );
+      return;
+    }
+    if (this.isUsernameTaken(account.username)) {
+      this.sendAccountResult(
+        client,
+        `${account.username} is already logged in.`
+      );
+      return;
+    }
+    if (findBan(this.bans, { username: account.username })) {
+      this.sendAccountResult(client, `${account.username} is banned.`);
+      return;
+    }
+
+    // In public-key mode the client's key must be listed for the new name too
+    if (
+      this.authMode === "publicKey" &&
+      !isKeyAuthorized(
+        this.authorizedKeysPath,
+        account.username,
+        client.publicKey
+      )
+    ) {
+      this.sendAccountResult(
+        client,
+        `Your key is not authorized for ${account.username}.`
+      );
+      return;
+    }
+
+    this.requestAuthentication(client, account);
+  }
+
+  // Finish a /login: take over the account's name and role
+  private completeLogin(
+    client: Client,
+    account: Account,
+    serverSignature: string
+  ): void {
+    // The name may have been taken while the client was typing the password
+    if (this.isUsernameTaken(account.username)) {
+      this.sendAccountResult(
+        client,
+        `${account.username} is already logged in.`
+      );
+      return;
+    }
+
+    const previousName = client.username;
+    client.account = account.username;
+    client.role = account.role;
+    this.renameClient(client, account.username);
+    this.rememberAccountKeys(client, account);
+
+    const result: Message = {
+      type: "accountResult",
+      sender: "Server",
+      content: `Logged in as ${account.username} (role: ${account.role}).`,
+      username: account.username,
+      signature: serverSignature,
+      timestamp: getTimestamp(),
+    };
+    this.sendToClient(client, result);
+
+    this.announceRename(client, previousName);
+    this.deliverOfflineMessages(client);
+  }
+
+  // Change the password of the account the client is logged in to
+  private handlePasswd(client: Client, encodedVerifier: string): void {
+    const account = client.account
+      ? this.findAccount(client.account)
+      : undefined;
+    if (!account) {
+      this.sendAccountResult(
+        client,
+        "You are not logged in to a registered account."
+      );
+      return;
+    }
+
+    let verifier: PasswordVerifier;
+    try {
+      verifier = parsePasswordVerifier(encodedVerifier);
+    } catch {
+      this.sendAccountResult(
+        client,
+        "Password change failed: invalid verifier."
+      );
+      return;
+    }
+    if (!isAcceptableVerifier(verifier)) {
+      this.sendAccountResult(
+        client,
+        "Password change failed: the password verifier is too weak."
+      );
+      return;
+    }
+
+    account.passwordVerifier = encodedVerifier;
+    saveAccounts(this.accountsPath, this.accounts);
+    this.sendAccountResult(client, "Password changed.");
+  }
+
+  // Move a client to a new name in the clients map
+  private renameClient(client: Client, username: string): void {
+    this.clients.delete(client.username.toLowerCase());
+    client.username = username;
+    this.clients.set(username.toLowerCase(), client);
+  }
+
+  // Tell the client's rooms about a new name. Room keys are wrapped to members
+  // by name, so every room also starts a new epoch
+  private announceRename(client: Client, previousName: string): void {
+    client.rooms.forEach((roomName) => {
+      const room = this.rooms.get(roomName) as Room;
+      this.broadcastToRoom(room, {
+        type: "notice",
+        sender: "Server",
+        content: `${previousName} is now known as ${client.username}`,
+        room: room.name,
+        timestamp: getTimestamp(),
+      });
+      this.rotateGroupKey(room);
+    });
+  }
+
+  // Send the outcome of an account request to the client
+  private sendAccountResult(
+    client: Client,
+    content: string,
+    username?: string
+  ): void {
+    this.sendToClient(client, {
+      type: "accountResult",
+      sender: "Server",
+      content,
+      username,
+      timestamp: getTimestamp(),
+    });
+  }
+
+  // Count a failed password for an address and return how long to wait before answering
+  private recordFailedLogin(address: string): number {
+    const attemptData = loginAttempts.get(address) || {
+      count: 0,
+      lastAttempt: Date.now(),
+      failures: 0,
+    };
+    attemptData.failures++;
+    loginAttempts.set(address, attemptData);
+
+    return Math.min(
+      LOGIN_FAILURE_DELAY * 2 ** (attemptData.failures - 1),
+      MAX_LOGIN_FAILURE_DELAY
+    );
+  }
+
+  // Tell the client it has logged in; failed logins get an auth_failed error instead
+  private confirmAuthentication(
+    client: Client,
+    serverSignature?: string
+  ): void {
+    const authResultMsg: Message = {
+      type: "authResult",
+      sender: "Server",
+      content: "authenticated",
+      signature: serverSignature,
+      username: client.username, // May differ in case from the name the client typed
+      timestamp: getTimestamp(),
+    };
+
+    this.sendToClient(client, authResultMsg); // Send authentication result
+  }
+
+  // Announce that a client has successfully joined the chat
+  private announceClientJoined(client: Client): void {
+    console.log(`[${getTimestamp()}] ${client.username} has joined the chat`);
+
+    // Everyone starts in the default room
+    this.addToRoom(client, this.rooms.get(DEFAULT_ROOM) as Room);
+    this.deliverOfflineMessages(client);
+  }
+
+  // Create an empty room
+  private createRoom(name: string, password?: string): Room {
+    // Other rooms lose their history when they empty, so only the default room's is on disk
+    const history =
+      name === DEFAULT_ROOM
+        ? pruneHistory(
+            loadHistory(
+              getHistoryPath(this.historyDir, name),
+              name,
+              this.storageKey
+            ),
+            this.settings.historyLimit,
+            this.settings.historyMaxAgeDays
+          )
+        : [];
+
+    return {
+      name,
+      topic: "",
+      passwordVerifier: password ? createPasswordVerifier(password) : undefined,
+      members: new Set(),
+      // Carry on after the stored epochs, so old history never shares an epoch with a new key
+      groupKeyEpoch: Math.max(0, ...history.map((entry) => entry.epoch)),
+      groupKeyDistributor: null,
+      history,
+      historyPending: new Set(),
+    };
+  }
+
+  // Fill the command registry; /help lists the commands in this order
+  private registerCommands(): void {
+    const commands: ServerCommand[] = [
+      {
+        name: "/help",
+        usage: "/help [command]",
+        description: "List the commands you can use, or show one in detail",
+        minArgs: 0,
+        maxArgs: 1,
+        permission: "guest",
+        handler: (client, input) => this.showHelp(client, input.args[0]),
+      },
+      {
+        name: "/who",
+        usage: "/who [#room]",
+        description: "List who is online, or who is in a room",
+        minArgs: 0,
+        maxArgs: 1,
+        permission: "guest",
+        handler: (client, input) => this.listUsers(client, input.args[0]),
+      },
+      {
+        name: "/whois",
+        usage: "/whois <username>",
+        description: "Show a user's account, rooms and key fingerprint",
+        minArgs: 1,
+        maxArgs: 1,
+        permission: "guest",
+        handler: (client, input) => this.showWhois(client, input.args[0]),
+      },
+      {
+        name: "/nick",
+        usage: "/nick <username>",
+        description: "Change your name (guests only)",
+        minArgs: 1,
+        maxArgs: 1,
+        permission: "guest",
+        handler: (client, input) => this.changeNick(client, input.args[0]),
+      },
+      {
+        name: "/join",
+        usage: "/join <#room> [password]",
+        description: "Join a room, creating it if needed",
+        minArgs: 1,
+        maxArgs: 2,
+        permission: "guest",
+        feature: "rooms",
+        handler: (client, input) =>
+          this.handleJoin(client, input.args[0], input.args[1]),
+      },
+      {
+        name: "/part",
+        usage: "/part [#room]",
+        description: "Leave a room (the active one by default)",
+        minArgs: 0,
+        maxArgs: 1,
+        permission: "guest",
+        feature: "rooms",
+        handler: (client, input) =>
+          this.handlePart(client, input.args[0] || input.room),
+      },
+      {
+        name: "/rooms",
+        usage: "/rooms",
+        description: "List the rooms",
+        minArgs: 0,
+        maxArgs: 0,
+        permission: "guest",
+        feature: "rooms",
+        handler: (client) => this.listRooms(client),
+      },
+      {
+        name: "/topic",
+        usage: "/topic [text]",
+        description: "Show or set the topic of the active room",
+        minArgs: 0,
+        maxArgs: Infinity,
+        permission: "guest",
+        feature: "rooms",
+        handler: (client, input) =>
+          this.setTopic(client, input.room, input.text),
+      },
+      {
+        name: "/away",
+        usage: "/away [message]",
+        description: "Mark yourself as away",
+        minArgs: 0,
+        maxArgs: Infinity,
+        permission: "guest",
+        handler: (client, input) =>
+          this.setPresence(client, "away", input.text),
+      },
+      {
+        name: "/dnd",
+        usage: "/dnd [message]",
+        description: "Ask not to be disturbed",
+        minArgs: 0,
+        maxArgs: Infinity,
+        permission: "guest",
+        handler: (client, input) => this.setPresence(client, "dnd", input.text),
+      },
+      {
+        name: "/back",
+        usage: "/back",
+        description: "Mark yourself as available again",
+        minArgs: 0,
+        maxArgs: 0,
+        permission: "guest",
+        handler: (client) => this.setPresence(client, "online", ""),
+      },
+      {
+        name: "/history",
+        usage: "/history [count]",
+        description: "Show the last messages of the active room",
+        minArgs: 0,
+        maxArgs: 1,
+        permission: "guest",
+        handler: (client, input) => this.showHistory(client, input),
+      },
+      {
+        name: "/leave",
+        usage: "/leave",
+        description: "Disconnect from the server",
+        minArgs: 0,
+        maxArgs: 0,
+        permission: "guest",
+        handler: (client) => this.disconnectClient(client),
+      },
+      {
+        name: "/kick",
+        usage: "/kick <username> [reason]",
+        description: "Disconnect a user",
+        minArgs: 1,
+        maxArgs: Infinity,
+        permission: "moderator",
+        handler: (client, input) => this.kickUser(client, input),
+      },
+      {
+        name: "/mute",
+        usage: "/mute <username> <duration> [reason]",
+        description: "Stop a user from sending messages, e.g. for 10m or 2h",
+        minArgs: 2,
+        maxArgs: Infinity,
+        permission: "moderator",
+        handler: (client, input) => this.muteUser(client, input),
+      },
+      {
+        name: "/unmute",
+        usage: "/unmute <username>",
+        description: "Lift a mute",
+        minArgs: 1,
+        maxArgs: 1,
+        permission: "moderator",
+        handler: (client, input) => this.unmuteUser(client, input),
+      },
+      {
+        name: "/ban",
+        usage: "/ban <username|fingerprint|ip> [reason]",
+        description: "Ban a name, key or address and disconnect its users",
+        minArgs: 1,
+        maxArgs: Infinity,
+        permission: "moderator",
+        handler: (client, input) => this.banUser(client, input),
+      },
+      {
+        name: "/unban",
+        usage: "/unban <username|fingerprint|ip>",
+        description: "Remove a ban",
+        minArgs: 1,
+        maxArgs: 1,
+        permission: "moderator",
+        handler: (client, input) => this.unbanUser(client, input),
+      },
+      {
+        name: "/bans",
+        usage: "/bans",
+        description: "List the bans",
+        minArgs: 0,
+        maxArgs: 0,
+        permission: "moderator",
+        handler: (client) => this.listBans(client),
+      },
+    ];
+
+    commands.forEach((command) => this.commands.set(command.name, command));
+  }
+
+  // Handle a slash command sent by the client: look it up in the registry, then
+  // check the client's permission and the number of arguments before running it
+  private handleCommand(client: Client, message: Message): void {
+    const input = parseCommand(message.content, message.room || "");
+    if (!input) return;
+
+    const command = this.commands.get(input.name);
+    if (!command) {
+      this.sendNotice(
+        client,
+        `Unknown command ${input.name}. Type /help for a list.`
+      );
+      return;
+    }
+    if (!hasPermission(client.role, command.permission)) {
+      this.sendError(
+        client,
+        "not_permitted",
+        `You do not have permission to use ${command.name}.`
+      );
+      return;
+    }
+    if (command.feature && !client.session.features.includes(command.feature)) {
+      this.sendError(
+        client,
+        "not_permitted",
+        `${command.name} needs a client that supports ${command.feature}.`
+      );
+      return;
+    }
+    if (
+      input.args.length < command.minArgs ||
+      input.args.length > command.maxArgs
+    ) {
+      this.sendNotice(client, `Usage: ${command.usage}`);
+      return;
+    }
+
+    command.handler(client, input);
+  }
+
+  // List the commands the client may run, or describe one of them
+  private showHelp(client: Client, name?: string): void {
+    const allowed = Array.from(this.commands.values()).filter(
+      (command) =>
+        hasPermission(client.role, command.permission) &&
+        (!command.feature || client.session.features.includes(command.feature))
+    );
+
+    if (name) {
+      const commandName = (
+        name.startsWith("/") ? name : `/${name}`
+      ).toLowerCase();
+      const command = allowed.find((other) => other.name === commandName);
+      this.sendNotice(
+        client,
+        command
+          ? `${command.usage}: ${command.description}`
+          : `Unknown command ${commandName}.`
+      );
+      return;
+    }
+
+    const width = Math.max(...allowed.map((command) => command.usage.length));
+    this.sendNotice(
+      client,
+      [
+        "Server commands:",
+        ...allowed.map(
+          (command) =>
+            `  ${command.usage.padEnd(width)}  ${command.description}`
+        ),
+      ].join("\n")
+    );
+  }
+
+  // List who is online, or the members of one room
+  private listUsers(client: Client, roomName?: string): void {
+    let members: Client[];
+    let title: string;
+
+    if (roomName) {
+      const room = this.rooms.get(roomName.toLowerCase());
+      // Members of password-protected rooms are only visible to each other
+      if (!room || (room.passwordVerifier && !room.members.has(client))) {
+        this.sendNotice(client, `You are not in ${roomName}.`);
+        return;
+      }
+      members = Array.from(room.members);
+      title = `In ${room.name}`;
+    } else {
+      members = Array.from(this.clients.values());
+      title = "Online";
+    }
+
+    const names = members
+      .filter((member) => member.authenticated && !member.disconnected)
+      .map((member) => {
+        const details = [
+          member.role && member.role !== "user" ? member.role : "",
+          member.presence === "online"
+            ? ""
+            : `${member.presence}${
+                member.statusText ? `: ${member.statusText}` : ""
+              }`,
+        ].filter(Boolean);
+        return details.length > 0
+          ? `${member.username} (${details.join(", ")})`
+          : member.username;
+      });
+    this.sendNotice(client, `${title} (${names.length}): ${names.join(", ")}`);
+  }
+
+  // Describe a user: account, role, rooms and key fingerprint
+  private showWhois(client: Client, username: string): void {
+    const target = this.findClient(username);
+    const account = this.findAccount(username);
+
+    if (!target) {
+      this.sendNotice(
+        client,
+        account
+          ? `${account.username} is offline (registered ${account.createdAt}, role: ${account.role}).`
+          : `No user named ${username} is online.`
+      );
+      return;
+    }
+
+    // Like /who, rooms with a password are only shown to their members
+    const rooms = Array.from(target.rooms).filter((roomName) => {
+      const room = this.rooms.get(roomName) as Room;
+      return !room.passwordVerifier || room.members.has(client);
+    });
+
+    this.sendNotice(
+      client,
+      [
+        `${target.username}: ${
+          target.account ? `registered, role: ${target.role}` : "guest"
+        }`,
+        `  Connected since ${target.connectedAt}`,
+        `  Status: ${target.presence}${
+          target.statusText ? ` (${target.statusText})` : ""
+        }`,
+        `  Rooms: ${rooms.join(", ") || "none"}`,
+        `  Key: ${getKeyFingerprint(target.publicKey)}`,
+        // Addresses are only shown to moderators, who may need them for /ban
+        hasPermission(client.role, "moderator")
+          ? `  Address: ${target.socket.remoteAddress}`
+          : "",
+      ]
+        .filter(Boolean)
+        .join("\n")
+    );
+  }
+
+  // Rename a guest, refusing reserved, registered and taken names
+  private changeNick(client: Client, username: string): void {
+    if (client.account) {
+      this.sendNotice(
+        client,
+        `You are logged in as ${client.account}. Use /login to switch accounts.`
+      );
+      return;
+    }
+    if (this.rejectIfMuted(client)) return; // Moderators should still recognise a muted user
+    if (username === client.username) {
+      this.sendNotice(client, `You are already ${username}.`);
+      return;
+    }
+    if (!isValidUsername(username)) {
+      this.sendError(client, "invalid_username", USERNAME_RULES);
+      return;
+    }
+    if (this.isUsernameReserved(username)) {
+      this.sendNotice(client, "That username is reserved for the server.");
+      return;
+    }
+    if (findBan(this.bans, { username })) {
+      this.sendNotice(client, `${username} is banned.`);
+      return;
+    }
+    if (this.findAccount(username)) {
+      this.sendNotice(
+        client,
+        `${username} is a registered account. Use /login ${username} to log in to it.`
+      );
+      return;
+    }
+    // Changing only the case of your own name is allowed
+    if (
+      this.isUsernameTaken(username) &&
+      username.toLowerCase() !== client.username.toLowerCase()
+    ) {
+      this.sendNotice(client, `${username} is already taken.`);
+      return;
+    }
+
+    // In public-key mode the client's key must be listed for the new name too
+    if (
+      this.authMode === "publicKey" &&
+      !isKeyAuthorized(this.authorizedKeysPath, username, client.publicKey)
+    ) {
+      this.sendNotice(client, `Your key is not authorized for ${username}.`);
+      return;
+    }
+
+    const previousName = client.username;
+    this.renameClient(client, username);
+    console.log(`[${getTimestamp()}] ${previousName} is now ${username}`);
+
+    this.sendToClient(client, {
+      type: "renamed",
+      sender: "Server",
+      content: `You are now known as ${username}.`,
+      username,
+      timestamp: getTimestamp(),
+    });
+    this.announceRename(client, previousName);
+  }
+
+  // Disconnect a client on the server's initiative (/leave, kicks and bans)
+  private disconnectClient(client: Client): void {
+    this.handleClientDisconnect(client);
+    client.socket.end();
+  }
+
+  // Find an online user a moderator wants to act on, refusing users of equal or higher rank
+  private findModerationTarget(
+    client: Client,
+    username: string
+  ): Client | undefined {
+    const target = this.findClient(username);
+    if (!target) {
+      this.sendNotice(client, `No user named ${username} is online.`);
+      return undefined;
+    }
+    if (!outranks(client.role, target.role)) {
+      this.sendError(
+        client,
+        "not_permitted",
+        `You cannot moderate ${target.username}.`
+      );
+      return undefined;
+    }
+    return target;
+  }
+
+  // Announce a moderation action in every room its targets are in (or, without any,
+  // in the moderator's active room), and tell the moderator if they are not there
+  private announceModeration(
+    client: Client,
+    targets: Client[],
+    fallbackRoom: string,
+    content: string
+  ): void {
+    console.log(`[${getTimestamp()}] ${content}`);
+
+    const roomNames = new Set<string>();
+    targets.forEach((target) =>
+      target.rooms.forEach((roomName) => roomNames.add(roomName))
+    );
+    if (roomNames.size === 0 && this.rooms.has(fallbackRoom)) {
+      roomNames.add(fallbackRoom);
+    }
+
+    const rooms = Array.from(roomNames).map(
+      (roomName) => this.rooms.get(roomName) as Room
+    );
+    rooms.forEach((room) =>
+      this.broadcastToRoom(room, {
+        type: "notice",
+        sender: "Server",
+        content,
+        room: room.name,
+        timestamp: getTimestamp(),
+      })
+    );
+    if (!rooms.some((room) => room.members.has(client))) {
+      this.sendNotice(client, content);
+    }
+  }
+
+  // Disconnect a user
+  private kickUser(client: Client, input: CommandInput): void {
+    const target = this.findModerationTarget(client, input.args[0]);
+    if (!target) return;
+
+    const reason = input.args.slice(1).join(" ");
+    this.announceModeration(
+      client,
+      [target],
+      input.room,
+      `${target.username} was kicked by ${client.username}${
+        reason ? `: ${reason}` : ""
+      }`
+    );
+    this.disconnectClient(target);
+  }
+
+  // Stop a user from sending room and direct messages for a while
+  private muteUser(client: Client, input: CommandInput): void {
+    const duration = parseDuration(input.args[1]);
+    if (duration === null) {
+      this.sendNotice(client, "Durations look like 30s, 10m, 2h or 1d.");
+      return;
+    }
+    const target = this.findModerationTarget(client, input.args[0]);
+    if (!target) return;
+
+    // Mutes are kept by name, key and account, so neither reconnecting nor /nick lifts them
+    this.mutes.set(target.username.toLowerCase(), {
+      until: Date.now() + duration,
+      fingerprint: getKeyFingerprint(target.publicKey),
+      account: target.account?.toLowerCase(),
+    });
+
+    const reason = input.args.slice(2).join(" ");
+    this.announceModeration(
+      client,
+      [target],
+      input.room,
+      `${target.username} was muted for ${formatDuration(duration)} by ${
+        client.username
+      }${reason ? `: ${reason}` : ""}`
+    );
+  }
+
+  // Lift a mute early
+  private unmuteUser(client: Client, input: CommandInput): void {
+    const username = input.args[0];
+    const target = this.findClient(username);
+    const lifted = Array.from(this.mutes.keys()).filter(
+      (name) =>
+        name === username.toLowerCase() ||
+        (target && this.muteMatches(name, target))
+    );
+    if (lifted.length === 0) {
+      this.sendNotice(client, `${username} is not muted.`);
+      return;
+    }
+
+    lifted.forEach((name) => this.mutes.delete(name));
+    this.announceModeration(
+      client,
+      target ? [target] : [],
+      input.room,
+      `${target ? target.username : username} was unmuted by ${client.username}`
+    );
+  }
+
+  // Whether the mute kept under a name applies to a client, by its name, key or account
+  private muteMatches(name: string, client: Client): boolean {
+    const mute = this.mutes.get(name);
+    return (
+      !!mute &&
+      (name === client.username.toLowerCase() ||
+        mute.fingerprint === getKeyFingerprint(client.publicKey) ||
+        (!!mute.account && mute.account === client.account?.toLowerCase()))
+    );
+  }
+
+  // How long a client is still muted for, in milliseconds (0 if not muted)
+  private getMuteRemaining(client: Client): number {
+    let remaining = 0;
+    Array.from(this.mutes.entries()).forEach(([name, mute]) => {
+      if (mute.until <= Date.now()) {
+        this.mutes.delete(name); // Expired
+      } else if (this.muteMatches(name, client)) {
+        remaining = Math.max(remaining, mute.until - Date.now());
+      }
+    });
+    return remaining;
+  }
+
+  // Tell a muted client their message was not sent; returns true if they are muted
+  private rejectIfMuted(client: Client): boolean {
+    const remaining = this.getMuteRemaining(client);
+    if (remaining > 0) {
+      this.sendError(
+        client,
+        "not_permitted",
+        "You are muted.",
+        Math.ceil(remaining / 1000)
+      );
+    }
+    return remaining > 0;
+  }
+
+  // Ban a username, key fingerprint or IP address and disconnect everyone it matches
+  private banUser(client: Client, input: CommandInput): void {
+    const { type, value } = getBanTarget(input.args[0]);
+    if (this.bans.some((ban) => ban.type === type && ban.value === value)) {
+      this.sendNotice(client, `${input.args[0]} is already banned.`);
+      return;
+    }
+
+    // Registered names are protected by their account's role even while offline
+    const account = type === "username" ? this.findAccount(value) : undefined;
+    if (account && !outranks(client.role, account.role)) {
+      this.sendError(
+        client,
+        "not_permitted",
+        `You cannot moderate ${account.username}.`
+      );
+      return;
+    }
+
+    const ban: Ban = {
+      type,
+      value,
+      reason: input.args.slice(1).join(" "),
+      bannedBy: client.username,
+      createdAt: getTimestamp(),
+    };
+
+    const targets = Array.from(this.clients.values()).filter(
+      (other) =>
+        other.authenticated &&
+        !other.disconnected &&
+        findBan([ban], {
+          ip: other.socket.remoteAddress,
+          username: other.username,
+          fingerprint: getKeyFingerprint(other.publicKey),
+        })
+    );
+    if (targets.includes(client)) {
+      this.sendNotice(client, "That ban would match your own connection.");
+      return;
+    }
+    const protectedTarget = targets.find(
+      (target) => !outranks(client.role, target.role)
+    );
+    if (protectedTarget) {
+      this.sendNotice(
+        client,
+        `You cannot moderate ${protectedTarget.username}.`
+      );
+      return;
+    }
+
+    this.bans.push(ban);
+    saveBans(this.bansPath, this.bans);
+
+    // Name the banned users rather than their address, which other members should not see
+    const label =
+      targets.length > 0
+        ? targets.map((target) => target.username).join(", ")
+        : type === "ip"
+          ? "an IP address"
+          : input.args[0];
+    this.announceModeration(
+      client,
+      targets,
+      input.room,
+      `${label} was banned by ${client.username}${
+        ban.reason ? `: ${ban.reason}` : ""
+      }`
+    );
+    targets.forEach((target) => this.disconnectClient(target));
+  }
+
+  // Remove a ban
+  private unbanUser(client: Client, input: CommandInput): void {
+    const { type, value } = getBanTarget(input.args[0]);
+    const index = this.bans.findIndex(
+      (ban) => ban.type === type && ban.value === value
+    );
+    if (index === -1) {
+      this.sendNotice(client, `${input.args[0]} is not banned.`);
+      return;
+    }
+
+    this.bans.splice(index, 1);
+    saveBans(this.bansPath, this.bans);
+    this.announceModeration(
+      client,
+      [],
+      input.room,
+      `${type === "ip" ? "An IP address" : input.args[0]} was unbanned by ${
+        client.username
+      }`
+    );
+  }
+
+  // List the bans
+  private listBans(client: Client): void {
+    const lines = this.bans.map(
+      (ban) =>
+        `  ${ban.type} ${ban.value} (by ${ban.bannedBy}, ${ban.createdAt})${
+          ban.reason ? `: ${ban.reason}` : ""
+        }`
+    );
+    this.sendNotice(
+      client,
+      lines.length > 0 ? ["Bans:", ...lines].join("\n") : "No one is banned."
+    );
+  }
+
+  // Join a room, creating it (with an optional password) if it does not exist yet
+  private handleJoin(
+    client: Client,
+    roomName: string,
+    password?: string
+  ): void {
+    const name = (
+      roomName.startsWith("#") ? roomName : `#${roomName}`
+    ).toLowerCase();
+    if (!ROOM_NAME_PATTERN.test(name)) {
+      this.sendNotice(
+        client,
+        "Room names are up to 32 letters, digits, - or _ after the #."
+      );
+      return;
+    }
+
+    let room = this.rooms.get(name);
+
+    // Joining a room we are already in just makes it the active one again
+    if (room && room.members.has(client)) {
+      this.sendRoomJoined(client, room);
+      return;
+    }
+
+    if (!room) {
+      room = this.createRoom(name, password);
+      this.rooms.set(name, room);
+      console.log(
+        `[${getTimestamp()}] ${client.username} created ${name}${
+          password ? " (password protected)" : ""
+        }`
+      );
+    } else if (room.passwordVerifier) {
+      this.joinWithPassword(client, room, password).catch((error) =>
+        logError(`Could not check the password for ${name}: ${error}`)
+      );
+      return;
+    }
+
+    this.addToRoom(client, room);
+  }
+
+  // Join a password-protected room once the password checks out. Each client has one
+  // check at a time, and after a wrong password must wait out the failure delay
+  // before trying again, so /join cannot be used to keep scrypt busy
+  private async joinWithPassword(
+    client: Client,
+    room: Room,
+    password?: string
+  ): Promise<void> {
+    if (client.checkingRoomPassword) {
+      this.sendNotice(
+        client,
+        "Wait for your last room password to be checked."
+      );
+      return;
+    }
+
+    client.checkingRoomPassword = true;
+    let valid = false;
+    try {
+      valid =
+        !!password &&
+        !!room.passwordVerifier &&
+        (await verifyPassword(room.passwordVerifier, password));
+    } catch (error) {
+      client.checkingRoomPassword = false;
+      throw error;
+    }
+
+    if (valid) {
+      client.checkingRoomPassword = false;
+      if (client.disconnected) return;
+      // The room may have emptied and been removed while the password was checked
+      if (this.rooms.get(room.name) === room) {
+        this.addToRoom(client, room);
+      } else {
+        this.handleJoin(client, room.name, password);
+      }
+      return;
+    }
+
+    // Room passwords are rate limited like logins
+    const delay = this.recordFailedLogin(
+      client.socket.remoteAddress || "unknown"
+    );
+    setTimeout(() => {
+      client.checkingRoomPassword = false;
+      if (client.disconnected) return;
+      this.sendNotice(client, `Wrong or missing password for ${room.name}.`);
+    }, delay);
+  }
+
+  // Leave a room
+  private handlePart(client: Client, roomName?: string): void {
+    const room = roomName ? this.rooms.get(roomName.toLowerCase()) : undefined;
+    if (!room || !room.members.has(client)) {
+      this.sendNotice(client, `You are not in ${roomName || "that room"}.`);
+      return;
+    }
+
+    this.removeFromRoom(client, room, "parted");
+  }
+
+  // List the rooms with their member count, topic and whether they need a password
+  private listRooms(client: Client): void {
+    const lines = Array.from(this.rooms.values()).map((room) => {
+      const details = [
+        `${room.members.size} member${room.members.size === 1 ? "" : "s"}`,
+        room.passwordVerifier ? "password" : "",
+      ].filter(Boolean);
+      return `${room.name} (${details.join(", ")})${
+        room.topic ? `: ${room.topic}` : ""
+      }`;
+    });
+
+    this.sendNotice(client, ["Rooms:", ...lines].join("\n"));
+  }
+
+  // Set the topic of a room the client is in
+  private setTopic(client: Client, roomName?: string, topic?: string): void {
+    const room = roomName ? this.rooms.get(roomName) : undefined;
+    if (!room || !room.members.has(client)) {
+      this.sendNotice(client, "Join a room before setting its topic.");
+      return;
+    }
+    if (!topic) {
+      this.sendNotice(
+        client,
+        room.topic ? `Topic: ${room.topic}` : "No topic is set.",
+        room.name
+      );
+      return;
+    }
+
+    room.topic = topic;
+    this.broadcastToRoom(room, {
+      type: "notice",
+      sender: "Server",
+      content: `${client.username} set the topic: ${topic}`,
+      room: room.name,
+      timestamp: getTimestamp(),
+    });
+  }
+
+  // Add a client to a room, announce it there and rotate the room key
+  private addToRoom(client: Client, room: Room): void {
+    room.members.add(client);
+    client.rooms.add(room.name);
+    this.sendRoomJoined(client, room);
+
+    this.broadcastToRoom(room, {
+      type: "join",
+      sender: "Server",
+      content: `${client.username} has joined ${room.name}`,
+      room: room.name,
+      timestamp: getTimestamp(),
+    });
+
+    // The history is sent once the new member holds the keys to read it
+    if (room.history.length > 0 && this.settings.historyOnJoin > 0) {
+      room.historyPending.add(client);
+    }
+
+    // Rotate the room key; the new member only gets the older keys the history needs
+    this.rotateGroupKey(room);
+  }
+
+  // Remove a client from a room, announce it there and rotate the room key
+  private removeFromRoom(
+    client: Client,
+    room: Room,
+    reason: "parted" | "left"
+  ): void {
+    room.members.delete(client);
+    client.rooms.delete(room.name);
+
+    if (reason === "parted") {
+      this.sendToClient(client, {
+        type: "roomParted",
+        sender: "Server",
+        content: "",
+        room: room.name,
+        timestamp: getTimestamp(),
+      });
+    }
+
+    room.historyPending.delete(client);
+
+    // Empty rooms disappear along with their history, except the default one
+    if (room.members.size === 0 && room.name !== DEFAULT_ROOM) {
+      this.rooms.delete(room.name);
+      fs.rmSync(getHistoryPath(this.historyDir, room.name), { force: true });
+      return;
+    }
+
+    this.broadcastToRoom(room, {
+      type: "leave",
+      sender: "Server",
+      content: `${client.username} has ${reason === "parted" ? "left" : "disconnected from"} ${room.name}`,
+      room: room.name,
+      timestamp: getTimestamp(),
+    });
+
+    // Rotate the room key so the departed member cannot read later messages
+    this.rotateGroupKey(room);
+  }
+
+  // Change (or with null, remove) the history entry of a message and write the
+  // history to disk
+  private changeHistoryEntry(
+    room: Room,
+    id: string,
+    change: (entry: HistoryEntry) => HistoryEntry | null
+  ): void {
+    const index = room.history.findIndex((entry) => entry.id === id);
+    if (index === -1) return;
+
+    const changed = change(room.history[index]);
+    room.history = changed
+      ? room.history.map((entry, i) => (i === index ? changed : entry))
+      : room.history.filter((_, i) => i !== index);
+    this.saveRoomHistory(room);
+  }
+
+  // Add a relayed message to a room's history and write the history to disk
+  private recordHistory(room: Room, message: Message): void {
+    if (this.settings.historyLimit <= 0) return;
+
+    const epoch = getCiphertextEpoch(message.content);
+    if (epoch === null) return; // Not room-key ciphertext; nobody could read it later
+
+    room.history = pruneHistory(
+      [
+        ...room.history,
+        {
+          id: message.id,
+          sender: message.sender,
+          content: message.content,
+          epoch,
+          timestamp: message.timestamp,
+          storedAt: Date.now(),
+        },
+      ],
+      this.settings.historyLimit,
+      this.settings.historyMaxAgeDays
+    );
+    this.saveRoomHistory(room);
+  }
+
+  // Drop history entries past the age limit, which a quiet room would otherwise
+  // keep replaying, and write the history to disk if anything went
+  private expireRoomHistory(room: Room): void {
+    const kept = pruneHistory(
+      room.history,
+      this.settings.historyLimit,
+      this.settings.historyMaxAgeDays
+    );
+    if (kept.length === room.history.length) return;
+
+    room.history = kept;
+    this.saveRoomHistory(room);
+  }
+
+  // Write a room's history to disk
+  private saveRoomHistory(room: Room): void {
+    try {
+      saveHistory(
+        getHistoryPath(this.historyDir, room.name),
+        room.name,
+        room.history,
+        this.storageKey
+      );
+    } catch (error) {
+      logError(
+        `Could not save history for ${room.name}: ${(error as Error).message}`
+      );
+    }
+  }
+
+  // Replay the last messages of a room to a member, with their original timestamps
+  private sendHistory(client: Client, room: Room, count: number): void {
+    this.expireRoomHistory(room);
+    const entries = room.history.slice(-count);
+    if (entries.length === 0) {
+      this.sendNotice(client, `No history in ${room.name}.`, room.name);
+      return;
+    }
+
+    this.sendNotice(
+      client,
+      `Last ${entries.length} message${entries.length === 1 ? "" : "s"} in ${room.name}:`,
+      room.name
+    );
+    entries.forEach((entry) =>
+      this.sendToClient(client, {
+        type: "message",
+        sender: entry.sender,
+        content: entry.content,
+        room: room.name,
+        timestamp: entry.timestamp,
+        id: entry.id,
+        edited: entry.edited,
+        history: true,
+      })
+    );
+  }
+
+  // Show more of the active room's history
+  private showHistory(client: Client, input: CommandInput): void {
+    const room = this.rooms.get(input.room);
+    if (!room || !room.members.has(client)) {
+      this.sendNotice(client, "Join a room before reading its history.");
+      return;
+    }
+
+    const count = input.args[0] ? parseInt(input.args[0], 10) : 20;
+    if (!Number.isInteger(count) || count <= 0) {
+      this.sendNotice(client, "Usage: /history [count]");
+      return;
+    }
+    this.sendHistory(client, room, count);
+  }
+
+  // Tell a client it is in a room, along with the room's topic
+  private sendRoomJoined(client: Client, room: Room): void {
+    this.sendToClient(client, {
+      type: "roomJoined",
+      sender: "Server",
+      content: room.topic,
+      room: room.name,
+      timestamp: getTimestamp(),
+    });
+  }
+
+  // Start a new room key epoch and ask one member to generate and distribute the key
+  private rotateGroupKey(room: Room): void {
+    const members = Array.from(room.members).filter(
+      (member) => member.authenticated && !member.disconnected
+    );
+
+    room.groupKeyEpoch++;
+    this.expireRoomHistory(room); // New members only get the keys for history they can still see
+    room.groupKeyDistributor = members.length > 0 ? members[0].username : null; // Longest-present member
+
+    // Tell every member a new epoch is coming so they hold outgoing messages until it arrives;
+    // only the distributor receives the member list it has to wrap the key to, along with
+    // the older epochs each new member needs to read the history
+    const historyEpochs = Array.from(
+      new Set(room.history.map((entry) => entry.epoch))
+    );
+    const roster: GroupMember[] = members.map((member) => ({
+      username: member.username,
+      publicKey: member.publicKey,
+      signingKey: member.signingKey,
+      keySignature: member.keySignature,
+      historyEpochs: room.historyPending.has(member)
+        ? historyEpochs
+        : undefined,
+    }));
+
+    members.forEach((member) => {
+      const request: Message = {
+        type: "groupKeyRequest",
+        sender: "Server",
+        content: room.groupKeyDistributor as string,
+        room: room.name,
+        epoch: room.groupKeyEpoch,
+        members:
+          member.username === room.groupKeyDistributor ? roster : undefined,
+        historyEpochs, // Keys members should keep for reading the history
+        timestamp: getTimestamp(),
+      };
+
+      this.sendToClient(member, request);
+    });
+  }
+
+  // Forward each member's wrapped copy of the new room key
+  private relayGroupKey(client: Client, message: Message): void {
+    const room = this.rooms.get(message.room || "");
+
+    // Only accept the key for the current epoch from the member that was asked for it;
+    // anything else is stale (a newer rotation is already under way) or forged
+    if (
+      !room ||
+      client.username !== room.groupKeyDistributor ||
+      message.epoch !== room.groupKeyEpoch ||
+      !message.wrappedKeys
+    ) {
+      console.warn(
+        `[${getTimestamp()}] Ignoring room key from ${client.username} for ${message.room} epoch ${message.epoch}`
+      );
+      return;
+    }
+
+    const wrappedKeys = message.wrappedKeys;
+    room.members.forEach((member) => {
+      if (!member.authenticated || member.disconnected) return;
+
+      const wrappedKey = wrappedKeys[member.username];
+      if (!wrappedKey) {
+        console.warn(
+          `[${getTimestamp()}] Room key for ${room.name} epoch ${message.epoch} is missing ${member.username}`
+        );
+        return;
+      }
+
+      // Only pass on the older keys wrapped to this member, with the distributor's
+      // signature so the member can check the key came from them
+      const historyKeys = message.wrappedHistoryKeys?.[member.username];
+      const keyMsg: Message = {
+        type: "groupKey",
+        sender: client.username,
+        content: wrappedKey,
+        room: room.name,
+        epoch: message.epoch,
+        wrappedHistoryKeys: historyKeys
+          ? { [member.username]: historyKeys }
+          : undefined,
+        signingKey: message.signingKey,
+        signature: message.keySignatures?.[member.username],
+        timestamp: getTimestamp(),
+      };
+
+      this.sendToClient(member, keyMsg);
+
+      // A new member can read the history now
+      if (room.historyPending.has(member)) {
+        room.historyPending.delete(member);
+        this.sendHistory(member, room, this.settings.historyOnJoin);
+      }
+    });
+  }
+
+  // Setup a secure connection with an ephemeral X25519 key agreement
+  private setupSecureConnection(
+    client: Client,
+    clientEphemeralKey: string
+  ): void {
+    // Generate a fresh key pair for this connection only (forward secrecy)
+    const { privateKey, publicKey } = generateDHKeyPair();
+    const sharedSecret = computeSharedSecret(privateKey, clientEphemeralKey);
+
+    // Everything both sides must agree on; used as HKDF salt and signed by the identity key
+    const transcript = [
+      clientEphemeralKey,
+      publicKey,
+      client.publicKey,
+      client.username,
+      describeSession(client.session),
+    ].join("\n");
+
+    // Derive one key per direction and wipe the raw shared secret
+    const sessionKeys = deriveSessionKeys(sharedSecret, transcript);
+    secureEraseKey(sharedSecret);
+    client.sendKey = sessionKeys.serverToClient;
+    client.receiveKey = sessionKeys.clientToServer;
+
+    // Send our ephemeral key to the client along with the server's identity
+    const keyExchangeMsg: Message = {
+      type: "publicKey",
+      sender: "Server",
+      content: publicKey,
+      identityKey: this.identity.publicKey,
+      signature: signKeyExchange(this.identity, transcript),
+      timestamp: getTimestamp(),
+    };
+
+    client.socket.write(JSON.stringify(keyExchangeMsg) + "\n"); // Send key exchange
+  }
+
+  // Broadcast a message to the members of one room
+  private broadcastToRoom(room: Room, message: Message): void {
+    room.members.forEach((member) => {
+      if (member.sendKey && member.authenticated && !member.disconnected) {
+        this.sendToClient(member, message);
+        this.maybeRekey(member);
+      }
+    });
+  }
+
+  // Send a notice to a single client, optionally tied to a room
+  private sendNotice(client: Client, content: string, room?: string): void {
+    this.sendToClient(client, {
+      type: "notice",
+      sender: "Server",
+      content,
+      room,
+      timestamp: getTimestamp(),
+    });
+  }
+
+  // Build an error frame with its code and, if it helps, when to try again
+  private createError(
+    code: ErrorCode,
+    content: string,
+    retryAfter?: number
+  ): Message {
+    return {
+      type: "error",
+      sender: "Server",
+      content,
+      code,
+      retryAfter,
+      timestamp: getTimestamp(),
+    };
+  }
+
+  // Report an error to a client without closing the connection
+  private sendError(
+    client: Client,
+    code: ErrorCode,
+    content: string,
+    retryAfter?: number
+  ): void {
+    this.sendToClient(client, this.createError(code, content, retryAfter));
+  }
+
+  // Send a message to a client inside the encrypted envelope
+  private sendToClient(client: Client, message: Message): void {
+    const frame = this.encryptForClient(client, message);
+    client.socket.write(
+      client.framing === "binary"
+        ? encodeBinaryFrame(frame)
+        : JSON.stringify(frame) + "\n"
+    );
+  }
+
+  // Encrypt a whole message for a client with the current session key; the key epoch
+  // and next sequence number travel in the clear and are bound in as associated data
+  private encryptForClient(client: Client, message: Message): SecureFrame {
+    const frame: SecureFrame = {
+      type: "secure",
+      keyEpoch: client.keyEpoch,
+      seq: ++client.sendSeq,
+      content: "",
+      iv: "",
+      authTag: "",
+    };
+    const { encrypted, iv, authTag } = encryptAES(
+      JSON.stringify(message),
+      client.sendKey as Buffer,
+      getAssociatedData(frame)
+    );
+    client.messagesSinceRekey++;
+
+    return { ...frame, content: encrypted, iv, authTag };
+  }
+
+  // Decrypt a frame from a client, rejecting replayed, reordered or tampered frames;
+  // frames sent before a rekey are decrypted with the previous key
+  private decryptFromClient(client: Client, message: SecureFrame): Message {
+    // TCP delivers in order, so anything but the next number is a replay or reorder
+    if (message.seq !== client.receiveSeq + 1) {
+      logSecurityEvent(
+        `Rejected frame from ${client.username} (${client.socket.remoteAddress}): expected sequence ${client.receiveSeq + 1}, got ${message.seq}`
+      );
+      throw new Error("Replayed or out-of-order frame");
+    }
+
+    const isCurrentEpoch = message.keyEpoch === client.keyEpoch;
+    const key = isCurrentEpoch
+      ? client.receiveKey
+      : message.keyEpoch === client.keyEpoch - 1
+        ? client.previousReceiveKey // Still in flight from before the rekey
+        : undefined;
+
+    if (!key) {
+      logSecurityEvent(
+        `Rejected frame from ${client.username} (${client.socket.remoteAddress}): no session key for epoch ${message.keyEpoch}`
+      );
+      throw new Error(`No session key for epoch ${message.keyEpoch}`);
+    }
+
+    let content: string;
+    try {
+      content = decryptAES(
+        message.content,
+        message.iv,
+        message.authTag,
+        key,
+        getAssociatedData(message)
+      );
+    } catch (error) {
+      logSecurityEvent(
+        `Rejected frame from ${client.username} (${client.socket.remoteAddress}): authentication failed`
+      );
+      throw error;
+    }
+
+    client.receiveSeq = message.seq;
+    client.messagesSinceRekey++;
+
+    // The client has switched to the new keys, so the old one can go
+    if (isCurrentEpoch && client.previousReceiveKey) {
+      secureEraseKey(client.previousReceiveKey);
+      client.previousReceiveKey = undefined;
+    }
+
+    return JSON.parse(content);
+  }
+
+  // Ping clients that have been quiet for a heartbeat interval, and disconnect
+  // the ones that stayed silent past the timeout
+  private checkHeartbeats(): void {
+    const now = Date.now();
+    this.clients.forEach((client) => {
+      if (!client.sendKey || client.disconnected) return;
+
+      const silentFor = now - client.lastSeenAt;
+      if (silentFor >= this.settings.heartbeatTimeoutSeconds * 1000) {
+        console.log(
+          `[${getTimestamp()}] ${client.username} timed out after ${Math.round(
+            silentFor / 1000
+          )}s of silence`
+        );
+        client.socket.destroy();
+        this.handleClientDisconnect(client);
+      } else if (silentFor >= this.settings.heartbeatIntervalSeconds * 1000) {
+        this.sendToClient(client, {
+          type: "ping",
+          sender: "Server",
+          content: "",
+          id: crypto.randomBytes(8).toString("hex"),
+          timestamp: getTimestamp(),
+        });
+      }
+    });
+  }
+
+  // Start a rekey if the session has used its keys for too many messages or too long
+  private maybeRekey(client: Client): void {
+    if (!client.authenticated || client.disconnected || client.pendingRekey) {
+      return;
+    }
+
+    const expired =
+      Date.now() - client.lastRekeyAt >=
+      this.settings.rekeyAfterMinutes * 60000;
+    if (
+      expired ||
+      client.messagesSinceRekey >= this.settings.rekeyAfterMessages
+    ) {
+      this.initiateRekey(client);
+    }
+  }
+
+  // Send a fresh ephemeral key to the client, protected by the current session key
+  private initiateRekey(client: Client): void {
+    client.pendingRekey = generateDHKeyPair();
+    this.sendRekeyMessage(client, client.pendingRekey.publicKey, false);
+  }
+
+  // Handle a rekey request or response from the client
+  private handleRekey(client: Client, message: Message): void {
+    const payload: RekeyPayload = JSON.parse(message.content);
+
+    if (!payload.response) {
+      // Both sides started at once: ours wins and the client answers it instead
+      if (client.pendingRekey) return;
+
+      // Answer under the old key, then switch; the client's in-flight messages
+      // still use the old key, so keep it for receiving until it switches too
+      const ephemeral = generateDHKeyPair();
+      this.sendRekeyMessage(client, ephemeral.publicKey, true);
+      this.switchSessionKeys(
+        client,
+        ephemeral.privateKey,
+        payload.ephemeralKey,
+        ephemeral.publicKey,
+        true
+      );
+    } else {
+      if (!client.pendingRekey) return; // Unsolicited response
+
+      // The client's answer was the last frame it sent under the old key (it
+      // switches right after sending it), so on this ordered stream the old
+      // receive key is never needed again. The client keeps its own old receive
+      // key until our first frame under the new epoch reaches it
+      const { privateKey, publicKey } = client.pendingRekey;
+      client.pendingRekey = undefined;
+      this.switchSessionKeys(
+        client,
+        privateKey,
+        payload.ephemeralKey,
+        publicKey,
+        false
+      );
+    }
+  }
+
+  // Send our half of a rekey to the client
+  private sendRekeyMessage(
+    client: Client,
+    ephemeralKey: string,
+    response: boolean
+  ): void {
+    const payload: RekeyPayload = { ephemeralKey, response };
+    this.sendToClient(client, {
+      type: "rekey",
+      sender: "Server",
+      content: JSON.stringify(payload),
+      timestamp: getTimestamp(),
+    });
+  }
+
+  // Derive the next session keys from a completed rekey and wipe the old ones
+  private switchSessionKeys(
+    client: Client,
+    privateKey: crypto.KeyObject,
+    clientEphemeralKey: string,
+    serverEphemeralKey: string,
+    keepPreviousReceiveKey: boolean
+  ): void {
+    const nextEpoch = client.keyEpoch + 1;
+    const sharedSecret = computeSharedSecret(privateKey, clientEphemeralKey);
+    const sessionKeys = deriveSessionKeys(
+      sharedSecret,
+      [clientEphemeralKey, serverEphemeralKey, `rekey ${nextEpoch}`].join("\n")
+    );
+    secureEraseKey(sharedSecret);
+
+    if (client.sendKey) secureEraseKey(client.sendKey);
+    if (client.previousReceiveKey) secureEraseKey(client.previousReceiveKey);
+    if (keepPreviousReceiveKey) {
+      client.previousReceiveKey = client.receiveKey;
+    } else {
+      if (client.receiveKey) secureEraseKey(client.receiveKey);
+      client.previousReceiveKey = undefined;
+    }
+
+    client.sendKey = sessionKeys.serverToClient;
+    client.receiveKey = sessionKeys.clientToServer;
+    client.keyEpoch = nextEpoch;
+    client.messagesSinceRekey = 0;
+    client.lastRekeyAt = Date.now();
+
+    console.log(
+      `[${getTimestamp()}] Session keys for ${client.username} rotated (epoch ${nextEpoch})`
+    );
+  }
+
+  // Handle client disconnection (cleanup and broadcast)
+  private handleClientDisconnect(client: Client): void {
+    if (client.disconnected) return; // Skip if already disconnected
+    client.disconnected = true; // Mark client as disconnected
+
+    clearTimeout(client.loginDeadline);
+
+    // Wipe the session keys; they are never needed again
+    [client.sendKey, client.receiveKey, client.previousReceiveKey].forEach(
+      (key) => key && secureEraseKey(key)
+    );
+    if (!client.authenticated) return; // It never held a name or joined a room
+
+    console.log(`${client.username} has left the chat`);
+    this.clients.delete(client.username.toLowerCase()); // Remove from active clients
+
+    // Files still being uploaded can never be completed, and files offered
+    // to this client no longer need to be kept for it
+    this.fileTransfers.forEach((transfer) => {
+      if (transfer.sender === client && !transfer.complete) {
+        this.cancelFileTransfer(transfer, "");
+      } else if (transfer.awaiting.delete(client) && !transfer.awaiting.size) {
+        this.removeFileTransfer(transfer);
+      }
+    });
+
+    // Leave every room, announcing it and rotating the room keys so the
+    // departed member cannot read later messages
+    client.rooms.forEach((roomName) => {
+      this.removeFromRoom(client, this.rooms.get(roomName) as Room, "left");
+    });
   }
 }
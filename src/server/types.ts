@@ -1,5 +1,6 @@
 // src/server/types.ts
 import * as net from "net";
+import * as crypto from "crypto";
 
 /**
  * Represents a connected client in the server.
@@ -9,9 +10,100 @@ export interface Client {
   socket: net.Socket; // The socket for the client's connection
   username: string; // The client's username
   publicKey: string; // The client's public key, used for encryption
-  sharedSecret?: Buffer; // An optional shared secret for encryption, if available
+  signingKey?: string; // The client's Ed25519 public key, which vouches for publicKey
+  keySignature?: string; // The client's signature over publicKey, passed on to room key distributors
+  sendKey?: Buffer; // AES key for messages to the client, set after the key exchange
+  receiveKey?: Buffer; // AES key for messages from the client, set after the key exchange
+  keyEpoch: number; // Session key generation, bumped on every rekey
+  previousReceiveKey?: Buffer; // Old receive key, kept until the client has switched over
+  pendingRekey?: { privateKey: crypto.KeyObject; publicKey: string }; // Our half of a rekey in progress
+  sendSeq: number; // Sequence number of the last encrypted frame sent to the client
+  receiveSeq: number; // Sequence number of the last encrypted frame accepted from the client
+  messagesSinceRekey: number; // Frames encrypted or decrypted with the current keys
+  lastRekeyAt: number; // When the current keys were established (ms since epoch)
   disconnected?: boolean; // Flag to indicate if the client is disconnected
   authenticated: boolean; // Flag to indicate if the client is authenticated
+  authChallenge?: AuthChallenge; // Password challenge waiting for the client's answer
+  keyChallenge?: string; // Nonce of a public-key login challenge waiting for the client's signature
+  loginAccount?: string; // Account the pending challenge is for (none means the server password)
+  account?: string; // Registered account the client is logged in to
+  role?: AccountRole; // Role of that account
+  rooms: Set<string>; // Names of the rooms the client has joined
+  connectedAt: string; // Timestamp when the client connected, shown in /whois
+  presence: PresenceState; // Whether the user is around, set with /away, /dnd and /back
+  statusText: string; // Optional text explaining the presence, e.g. "lunch"
+  lastSeenAt: number; // When anything last arrived from the client (ms since epoch), for the heartbeat
+  loginDeadline?: NodeJS.Timeout; // Disconnects the client if it has not logged in in time
+  session: SessionParameters; // Cipher suite and features agreed in the hello exchange
+  connectionId: string; // Random ID for this connection, which outlives name changes
+  checkingRoomPassword?: boolean; // A room password is being checked, or its failure delay is running
+  framing: "json" | "binary"; // How frames to the client are written once the keys are in place
+}
+
+/**
+ * Represents what the server remembers about a chat message so read receipts,
+ * edits and deletions can be checked and passed on.
+ */
+export interface TrackedMessage {
+  author: string; // Username of the message's author
+  authorId: string; // The author's account, or connection for guests, so a new holder of the name cannot act as the author
+  room?: string; // Room the message was sent to
+  recipient?: string; // Recipient of a direct message
+}
+
+/**
+ * Represents a file being sent through the server. The server holds the
+ * encrypted chunks until the transfer expires and cannot read them when the
+ * file went to a room, since the file key travels inside the room-key
+ * encrypted offer.
+ */
+export interface FileTransfer {
+  id: string; // Transfer ID chosen by the sender
+  sender: Client; // The client sending the file
+  room?: string; // Room the file is offered to
+  recipient?: string; // User the file is offered to
+  offer: string; // The offer exactly as the sender sent it
+  size: number; // Announced file size in bytes
+  chunks: string[]; // Encrypted chunks received so far, in order
+  complete: boolean; // Whether all chunks have arrived and the offer went out
+  awaiting: Set<Client>; // Recipients who were offered the file and have not answered yet
+  expiry: NodeJS.Timeout; // Removes the transfer once recipients had their chance
+}
+
+/**
+ * Presence states a user can be in.
+ */
+export type PresenceState = "online" | "away" | "dnd";
+
+/**
+ * Optional protocol features a client and server can agree on in the hello exchange.
+ * Compression is not one of them: compressing before encryption leaks content through lengths.
+ */
+export type ProtocolFeature = "rooms" | "fileTransfer" | "binaryFraming";
+
+/**
+ * Stable codes carried by error frames, so clients can act on an error
+ * without parsing its text.
+ */
+export type ErrorCode =
+  | "rate_limited" // Too many connections or login attempts from the address
+  | "server_busy" // Too many connections are waiting to log in
+  | "banned" // The user, key or address is banned
+  | "auth_failed" // The password was wrong
+  | "timeout" // The handshake or login took too long
+  | "unsupported_version" // Protocol versions or cipher suites do not match
+  | "handshake_failed" // The key exchange could not be completed
+  | "bad_frame" // A frame could not be processed
+  | "too_large" // A frame was over the size limit
+  | "not_permitted" // The client may not do what it asked
+  | "invalid_username"; // The username breaks the naming rules
+
+/**
+ * Represents what a client and server agreed on in the hello exchange.
+ */
+export interface SessionParameters {
+  cipherSuite: string; // Key exchange and encryption scheme for the session
+  features: ProtocolFeature[]; // Optional features both sides support
 }
 
 /**
@@ -25,12 +117,314 @@ export interface Message {
     | "leave" // User leaving the server
     | "publicKey" // A message containing a public key
     | "auth" // Authentication request
+    | "authChallenge" // Password challenge from the server
+    | "keyChallenge" // Public-key login challenge from the server
+    | "keyAuth" // Signature answering a public-key login challenge
     | "authResult" // Authentication result
-    | "usernameResult"; // Username validation result
+    | "usernameResult" // Username validation result
+    | "groupKeyRequest" // Server asks members to expect (or distribute) a new room key
+    | "groupKey" // A room key wrapped to a member's public key
+    | "keyRequest" // Asks for a user's public key before sending them a direct message or file
+    | "userKey" // A user's public key and their signature over it, or no key if there is none
+    | "error" // Protocol error reported by the server
+    | "rekey" // Session rekey request or response
+    | "register" // Register the current username as an account
+    | "login" // Log in to a registered account during a session
+    | "passwd" // Change the password of the logged-in account
+    | "accountResult" // Outcome of a register, login or passwd request
+    | "notice" // Server notice shown to the user as-is
+    | "command" // Slash command for the server, such as /join or /rooms
+    | "roomJoined" // The client is now a member of a room
+    | "roomParted" // The client is no longer a member of a room
+    | "direct" // Private message to a single user
+    | "renamed" // The client's username changed (after /nick)
+    | "presence" // A user's presence changed
+    | "typing" // A user is typing in a room
+    | "ack" // The server has passed a chat message on to its recipients
+    | "read" // Read receipt for a chat message
+    | "edit" // New text for a chat message its author sent earlier
+    | "delete" // Removal of a chat message by its author or a moderator
+    | "fileOffer" // A file someone wants to send, with the key to its chunks
+    | "fileChunk" // One encrypted piece of a file
+    | "fileComplete" // All chunks of a file have been sent
+    | "fileAccept" // A recipient wants the offered file
+    | "fileDecline" // A recipient does not want the file, or the server refused it
+    | "fileCancel" // The server dropped a file before everyone answered, e.g. because it expired
+    | "ping" // Heartbeat or /ping, answered with a pong carrying the same ID
+    | "pong" // Answer to a ping
+    | "hello"; // Protocol version and features, the first frame in each direction
   sender: string; // The sender's username
   content: string; // The message content (could be text or other data)
   iv?: string; // Initialization vector for encrypted messages (optional)
   authTag?: string; // Authentication tag for encrypted messages (optional)
   timestamp: string; // Timestamp when the message was sent
+  id?: string; // Unique ID the server gives every chat message
+  clientId?: string; // ID the sender chose for a chat message, echoed in the server's ack
   password?: string; // Optional password field for authentication messages
+  room?: string; // Room a message, notice or room key belongs to
+  epoch?: number; // Room key epoch for group key messages
+  members?: GroupMember[]; // Members a new room key must be wrapped to (distributor only)
+  wrappedKeys?: Record<string, string>; // Room key wrapped to each member, keyed by username
+  wrappedHistoryKeys?: Record<string, Record<string, string>>; // Older room keys for new members, by username, then epoch
+  historyEpochs?: number[]; // Room key epochs still needed to read the room history
+  history?: boolean; // Set on messages replayed from the room history
+  queued?: boolean; // Set on direct messages that were queued while the recipient was offline
+  edited?: boolean; // Set on history messages whose author edited them
+  size?: number; // Size of an offered file in bytes
+  chunk?: number; // Position of a file chunk, counting from 0
+  presence?: PresenceState; // The new presence in a presence message
+  ephemeralKey?: string; // The client's ephemeral X25519 public key in the handshake
+  protocolVersion?: number; // Protocol version the sender speaks, in a hello
+  cipherSuites?: string[]; // Cipher suites offered by the client, or the one the server chose
+  features?: ProtocolFeature[]; // Optional features offered by the client, or the ones the server agreed to
+  code?: ErrorCode; // What went wrong, on error frames
+  retryAfter?: number; // Seconds to wait before trying again, on error frames
+  username?: string; // Account name a challenge or account result applies to, or the recipient of a direct message
+  identityKey?: string; // The server's long-lived identity public key (PEM) in the key exchange
+  signature?: string; // Identity signature over the key exchange, the server's login signature, a user's signature over their RSA key, or a room key's signature, in base64 format
+  signingKey?: string; // A user's Ed25519 public key (PEM), vouching for their RSA key or for a room key they distributed
+  keySignatures?: Record<string, string>; // The distributor's signature over each member's wrapped room key, keyed by username
+}
+
+/**
+ * Represents a room member as announced to the client that distributes a new room key.
+ * The server only relays public keys; it never sees the room key itself.
+ */
+export interface GroupMember {
+  username: string; // The member's username
+  publicKey: string; // The member's RSA public key (PEM), used to wrap the room key
+  signingKey?: string; // The member's Ed25519 public key (PEM), which vouches for publicKey
+  keySignature?: string; // The member's signature over publicKey, in base64 format
+  historyEpochs?: number[]; // Older epochs whose keys a new member needs to read the room history
+}
+
+/**
+ * Represents the server's long-lived Ed25519 identity.
+ * The identity is stored on disk so clients can pin its fingerprint across restarts.
+ */
+export interface ServerIdentity {
+  publicKey: string; // The identity public key (in PEM format)
+  privateKey: crypto.KeyObject; // The identity private key, used to sign key exchanges
+  fingerprint: string; // SHA-256 fingerprint of the public key, shown to users
+}
+
+/**
+ * Represents the server settings that are read from the optional config file.
+ * Anything missing from the file falls back to the defaults in `serverConfig.ts`.
+ */
+export interface ServerSettings {
+  dataDir: string; // Directory for persistent server state (identity key, etc.)
+  rekeyAfterMessages: number; // Rekey a session after this many encrypted frames
+  rekeyAfterMinutes: number; // Rekey a session after this many minutes
+  passwordVerifier?: string; // Encoded scrypt verifier of the server password, if any
+  authMode: "password" | "publicKey"; // Server password (or none), or keys from the authorized-keys file
+  historyLimit: number; // Messages kept per room (0 turns history off)
+  historyMaxAgeDays: number; // Messages older than this are dropped from the history (0 keeps them)
+  historyOnJoin: number; // Messages replayed to a member when they join a room
+  offlineQueueLimit: number; // Direct messages queued per offline account (0 turns queueing off)
+  offlineMessageMaxAgeDays: number; // Queued direct messages expire after this many days (0 keeps them)
+  maxFileSize: number; // Largest file that can be sent, in bytes (0 turns file transfer off)
+  heartbeatIntervalSeconds: number; // Ping clients that have been quiet this long (0 turns the heartbeat off)
+  heartbeatTimeoutSeconds: number; // Disconnect clients that have been silent this long
+  handshakeTimeoutSeconds: number; // Time a new connection has to send its public key
+  loginTimeoutSeconds: number; // Time a client has to log in after the key exchange
+  maxPendingConnections: number; // Connections that may be in the handshake or login at once
+  maxFrameSize: number; // Largest frame accepted from a client, in bytes
+  binaryFraming: boolean; // Whether clients may switch to length-prefixed binary frames
+  admins: string[]; // Accounts made admins at startup; registering never grants more than "user"
+}
+
+/**
+ * Represents a chat room. Rooms are created on demand by the first /join and removed
+ * when the last member leaves (except the default room).
+ * Each room has its own room key epochs, so members of one room cannot read another.
+ */
+export interface Room {
+  name: string; // Room name, always starting with "#"
+  topic: string; // Room topic, shown on join and in /rooms
+  passwordVerifier?: PasswordVerifier; // Verifier of the room password, if the room has one
+  members: Set<Client>; // Members in join order; the first is asked to distribute room keys
+  groupKeyEpoch: number; // Current room key epoch, bumped on every join/leave
+  groupKeyDistributor: string | null; // Member asked to distribute the current room key
+  history: HistoryEntry[]; // Recent messages, oldest first, as room-key ciphertext
+  historyPending: Set<Client>; // New members who get the history once their room key arrives
+}
+
+/**
+ * Represents a message kept in a room's history. The server only ever holds the
+ * room-key ciphertext; on disk each entry is encrypted again with the storage key.
+ */
+export interface HistoryEntry {
+  id?: string; // The message's ID (missing from entries stored by older versions)
+  sender: string; // The author's username
+  content: string; // The message as room-key ciphertext, exactly as relayed
+  epoch: number; // Room key epoch the message is encrypted under
+  timestamp: string; // Timestamp when the message was relayed
+  storedAt: number; // When the message was stored (ms since epoch), for age limits
+  edited?: boolean; // Whether the author edited the message
+}
+
+/**
+ * Represents a direct message waiting for a registered user who was offline when it was sent.
+ */
+export interface QueuedMessage {
+  id: string; // The message's ID, for read receipts
+  sender: string; // The author's username
+  recipient: string; // The recipient's account name
+  content: string; // The signed message, exactly as the sender sent it
+  timestamp: string; // Timestamp when the message was sent
+  queuedAt: number; // When the message was queued (ms since epoch), for expiry
+}
+
+/**
+ * Roles a registered account can hold, from least to most privileged.
+ */
+export type AccountRole = "user" | "moderator" | "admin";
+
+/**
+ * Who may run a server command: anyone, or only accounts with at least the given role.
+ */
+export type CommandPermission = "guest" | AccountRole;
+
+/**
+ * Represents a slash command as typed by the client, split into its parts.
+ */
+export interface CommandInput {
+  name: string; // Command name including the slash, lower-cased
+  args: string[]; // Whitespace-separated arguments
+  text: string; // Everything after the command name, for free-text commands
+  room: string; // The client's active room when the command was typed
+}
+
+/**
+ * Represents a command in the server's command registry.
+ * Arguments are counted before the handler runs, so handlers can rely on them.
+ */
+export interface ServerCommand {
+  name: string; // Command name including the slash, e.g. "/who"
+  usage: string; // Usage line shown in /help and when the arguments are wrong
+  description: string; // One-line description shown in /help
+  minArgs: number; // Fewest arguments the command accepts
+  maxArgs: number; // Most arguments the command accepts (Infinity for free text)
+  permission: CommandPermission; // Lowest role allowed to run the command
+  feature?: ProtocolFeature; // Protocol feature the client must have agreed to, if any
+  handler: (client: Client, input: CommandInput) => void;
+}
+
+/**
+ * Represents a registered account in the account store.
+ * Only a password verifier is stored, never the password itself.
+ */
+export interface Account {
+  username: string; // The registered username, as it was first registered
+  passwordVerifier: string; // Encoded scrypt verifier of the account password
+  role: AccountRole; // The account's role
+  createdAt: string; // Timestamp when the account was registered
+  publicKey?: string; // RSA key of the latest login, so direct messages can be encrypted to it while the user is offline
+  signingKey?: string; // Ed25519 key that vouched for publicKey
+  keySignature?: string; // Signature over publicKey, in base64 format
+}
+
+/**
+ * Represents a mute on a user. It matches the muted name, and also the key and
+ * account the user had, so neither /nick nor reconnecting under another name lifts it.
+ */
+export interface Mute {
+  until: number; // When the mute ends (ms since epoch)
+  fingerprint: string; // Fingerprint of the muted user's key
+  account?: string; // Lower-cased account the user was logged in to, if any
+}
+
+/**
+ * Represents an entry in the persisted ban list.
+ */
+export interface Ban {
+  type: "username" | "fingerprint" | "ip"; // What the ban matches
+  value: string; // Lower-cased username, key fingerprint or IP address
+  reason: string; // Reason given by the moderator (may be empty)
+  bannedBy: string; // Moderator who added the ban
+  createdAt: string; // Timestamp when the ban was added
+}
+
+/**
+ * Represents the stored form of the server password (SCRAM-style).
+ * The password itself is never kept; the keys below are derived from it with scrypt and HMAC.
+ */
+export interface PasswordVerifier {
+  salt: Buffer; // Random scrypt salt
+  cost: number; // scrypt cost parameter (N)
+  blockSize: number; // scrypt block size (r)
+  parallelization: number; // scrypt parallelization (p)
+  storedKey: Buffer; // SHA-256 of the client key, used to check client proofs
+  serverKey: Buffer; // Key used to sign the server's half of the login
+}
+
+/**
+ * Represents the encrypted envelope that carries every frame sent after the key exchange.
+ * The whole inner message (type, sender, content, ...) is encrypted; only what is needed
+ * to pick the key and check ordering travels in the clear, and that is authenticated as AAD.
+ */
+export interface SecureFrame {
+  type: "secure";
+  keyEpoch: number; // Session key generation used to encrypt this frame
+  seq: number; // Per-direction sequence number
+  content: string; // The encrypted inner message (JSON), in base64 format
+  iv: string; // The initialization vector, in base64 format
+  authTag: string; // The authentication tag, in base64 format
+}
+
+/**
+ * Anything that can arrive on the wire: a plaintext handshake frame or an encrypted envelope.
+ */
+export type Frame = Message | SecureFrame;
+
+/**
+ * Holds the bytes received on a connection until they form a whole frame.
+ * Frames are JSON lines until both sides agree on binary framing in the hello
+ * exchange and the keys are in place; after that each frame is a 4-byte length followed by that many bytes.
+ */
+export interface FrameBuffer {
+  data: Buffer; // Bytes received but not read as frames yet
+  binary: boolean; // Whether frames are length-prefixed binary rather than JSON lines
+  maxFrameSize: number; // Largest frame accepted, in bytes
+}
+
+/**
+ * Represents the password challenge sent by the server (SCRAM-style login).
+ * It carries what the client needs to stretch the password the same way the server's
+ * verifier was made, plus a fresh nonce that makes every login unique.
+ */
+export interface AuthChallenge {
+  salt: string; // scrypt salt, in base64 format
+  cost: number; // scrypt cost parameter (N)
+  blockSize: number; // scrypt block size (r)
+  parallelization: number; // scrypt parallelization (p)
+  nonce: string; // Server nonce, in base64 format
+}
+
+/**
+ * Represents the client's answer to a password challenge.
+ * The proof shows the client knows the password without revealing it.
+ */
+export interface AuthResponse {
+  nonce: string; // Client nonce, in base64 format
+  proof: string; // Client proof, in base64 format
+}
+
+/**
+ * Represents the pair of directional AES keys derived from the X25519 handshake.
+ * Each direction has its own key so a message can never be reflected back to its sender.
+ */
+export interface SessionKeys {
+  clientToServer: Buffer; // Key for messages sent by the client
+  serverToClient: Buffer; // Key for messages sent by the server
+}
+
+/**
+ * Represents the encrypted body of a "rekey" message.
+ * The initiator sends a fresh ephemeral key; the responder answers with its own.
+ */
+export interface RekeyPayload {
+  ephemeralKey: string; // Ephemeral X25519 public key, base64-encoded DER (SPKI)
+  response: boolean; // True when answering a rekey started by the other side
 }
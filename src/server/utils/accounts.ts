@@ -0,0 +1,45 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Account } from "../types";
+
+/**
+ * Loads the account store from disk. Accounts are keyed by lower-cased username,
+ * so a registered name also protects its differently-cased variants.
+ *
+ * @param filePath - Path to the JSON account file
+ * @returns The accounts, or an empty map if the file does not exist yet
+ */
+export function loadAccounts(filePath: string): Map<string, Account> {
+  const accounts: Map<string, Account> = new Map();
+  if (!fs.existsSync(filePath)) return accounts;
+
+  const stored: Account[] = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  stored.forEach((account) => {
+    accounts.set(account.username.toLowerCase(), account);
+  });
+
+  return accounts;
+}
+
+/**
+ * Writes the account store to disk with owner-only permissions.
+ * The file is written to a temporary path first and then renamed, so a crash
+ * mid-write never leaves a truncated account file behind.
+ *
+ * @param filePath - Path to the JSON account file
+ * @param accounts - The accounts to store
+ */
+export function saveAccounts(
+  filePath: string,
+  accounts: Map<string, Account>
+): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o700 });
+
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(
+    tempPath,
+    JSON.stringify(Array.from(accounts.values()), null, 2),
+    { mode: 0o600 }
+  );
+  fs.renameSync(tempPath, filePath);
+}
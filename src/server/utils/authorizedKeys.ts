@@ -0,0 +1,88 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import { getKeyFingerprint } from "./identity";
+
+/**
+ * Checks whether a client key is allowed to log in as a username.
+ * Each line of the authorized-keys file holds `username fingerprint [comment]`, where the
+ * fingerprint is in the `SHA256:...` form the client prints. A username may have several lines;
+ * blank lines and `#` comments are ignored. The file is read on every check, so edits take
+ * effect without a restart.
+ *
+ * @param filePath - Path to the authorized-keys file
+ * @param username - The username the client wants to use
+ * @param publicKeyPem - The client's public key (PEM) from the handshake
+ * @returns True if the key is listed for the username, false otherwise
+ */
+export function isKeyAuthorized(
+  filePath: string,
+  username: string,
+  publicKeyPem: string
+): boolean {
+  if (!fs.existsSync(filePath)) return false;
+
+  const fingerprint = getKeyFingerprint(publicKeyPem);
+  return fs
+    .readFileSync(filePath, "utf8")
+    .split("\n")
+    .some((line) => {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith("#")) return false;
+
+      const [name, keyFingerprint] = trimmed.split(/\s+/);
+      return (
+        name.toLowerCase() === username.toLowerCase() &&
+        keyFingerprint === fingerprint
+      );
+    });
+}
+
+/**
+ * Builds the data the client signs to prove it holds its private key. It binds the
+ * signature to the username, the server's nonce and the server's identity, so a signature
+ * made for one login (or for another server) cannot be replayed.
+ *
+ * @param username - The username logging in
+ * @param nonce - The nonce from the server's challenge
+ * @param serverFingerprint - Fingerprint of the server's identity key
+ * @returns The data to sign or verify
+ */
+export function getKeyLoginData(
+  username: string,
+  nonce: string,
+  serverFingerprint: string
+): Buffer {
+  return Buffer.from(
+    JSON.stringify(["key login", username, nonce, serverFingerprint]),
+    "utf8"
+  );
+}
+
+/**
+ * Verifies the client's RSA-PSS signature over the key login data.
+ *
+ * @param publicKeyPem - The client's public key (PEM)
+ * @param data - The key login data
+ * @param signatureBase64 - The signature in base64 format
+ * @returns True if the signature is valid, false otherwise
+ */
+export function verifyKeyLoginSignature(
+  publicKeyPem: string,
+  data: Buffer,
+  signatureBase64: string
+): boolean {
+  try {
+    return crypto.verify(
+      "sha256",
+      data,
+      {
+        key: publicKeyPem,
+        padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+        saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST,
+      },
+      Buffer.from(signatureBase64, "base64")
+    );
+  } catch {
+    return false; // Malformed key or signature
+  }
+}
@@ -0,0 +1,68 @@
+import { AccountRole, CommandInput, CommandPermission } from "../types";
+
+// Permission levels from least to most privileged
+const PERMISSION_LEVELS: CommandPermission[] = [
+  "guest",
+  "user",
+  "moderator",
+  "admin",
+];
+
+/**
+ * Splits a slash command typed by the client into its name and arguments.
+ *
+ * @param content - The raw command, e.g. "/join #dev secret"
+ * @param room - The client's active room
+ * @returns The parsed command, or null if the input is not a command
+ */
+export function parseCommand(
+  content: string,
+  room: string
+): CommandInput | null {
+  const trimmed = content.trim();
+  if (!trimmed.startsWith("/")) return null;
+
+  const [name, ...args] = trimmed.split(/\s+/);
+  return {
+    name: name.toLowerCase(),
+    args,
+    text: trimmed.slice(name.length).trim(),
+    room,
+  };
+}
+
+/**
+ * Checks whether a client may run a command. Guests have no role; registered
+ * accounts may run commands up to and including their role.
+ *
+ * @param role - The client's account role, if logged in to an account
+ * @param permission - The command's required permission
+ * @returns True if the command is allowed
+ */
+export function hasPermission(
+  role: AccountRole | undefined,
+  permission: CommandPermission
+): boolean {
+  return (
+    PERMISSION_LEVELS.indexOf(role || "guest") >=
+    PERMISSION_LEVELS.indexOf(permission)
+  );
+}
+
+/**
+ * Checks whether one role ranks above another, e.g. before a moderator acts on a user.
+ * Guests (no role) rank below every registered account.
+ *
+ * @param role - The acting client's role
+ * @param otherRole - The role of the client being acted on
+ * @returns True if the first role is strictly more privileged
+ */
+export function outranks(
+  role: AccountRole | undefined,
+  otherRole: AccountRole | undefined
+): boolean {
+  return (
+    PERMISSION_LEVELS.indexOf(role || "guest") >
+    PERMISSION_LEVELS.indexOf(otherRole || "guest")
+  );
+}
@@ -1,28 +1,69 @@
 import * as crypto from "crypto";
 import * as fs from "fs";
+import { SecureFrame, SessionKeys } from "../types";
 
 /**
- * Generates a Diffie-Hellman key pair for the server.
- * This key pair will be used for secure key exchange with the client.
+ * Generates an ephemeral X25519 key pair for the server.
+ * A fresh pair is used for every connection, so a later key compromise
+ * does not expose recorded sessions (forward secrecy).
+ *
+ * @returns The private key object and the public key as base64-encoded DER (SPKI)
  */
-export function generateDHKeyPair() {
-  const dh = crypto.createDiffieHellman(2048);
-  const publicKey = dh.generateKeys("base64");
-  return { dh, publicKey };
+export function generateDHKeyPair(): {
+  privateKey: crypto.KeyObject;
+  publicKey: string;
+} {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync("x25519");
+  return {
+    privateKey,
+    publicKey: publicKey
+      .export({ type: "spki", format: "der" })
+      .toString("base64"),
+  };
 }
 
 /**
- * Computes the shared secret using the server's private key and the client's public key.
+ * Computes the X25519 shared secret from the server's private key and the client's public key.
  *
- * @param dh - The Diffie-Hellman object containing the server's private key.
- * @param clientPublicKey - The public key received from the client.
+ * @param privateKey - The server's ephemeral X25519 private key.
+ * @param clientPublicKey - The client's ephemeral public key, base64-encoded DER (SPKI).
  * @returns The computed shared secret.
  */
 export function computeSharedSecret(
-  dh: crypto.DiffieHellman,
+  privateKey: crypto.KeyObject,
   clientPublicKey: string
-) {
-  return dh.computeSecret(clientPublicKey, "base64", "base64");
+): Buffer {
+  const publicKey = crypto.createPublicKey({
+    key: Buffer.from(clientPublicKey, "base64"),
+    format: "der",
+    type: "spki",
+  });
+  if (publicKey.asymmetricKeyType !== "x25519") {
+    throw new Error("Peer key is not an X25519 public key");
+  }
+  return crypto.diffieHellman({ privateKey, publicKey });
+}
+
+/**
+ * Derives separate AES-256 keys for each direction from the ECDH shared secret with HKDF-SHA256.
+ * The handshake transcript is used as salt, so the keys are bound to this exact exchange.
+ *
+ * @param sharedSecret - The X25519 shared secret
+ * @param transcript - The handshake transcript (both ephemeral keys and the client's identity)
+ * @returns The client-to-server and server-to-client keys
+ */
+export function deriveSessionKeys(
+  sharedSecret: Buffer,
+  transcript: string
+): SessionKeys {
+  const salt = crypto.createHash("sha256").update(transcript).digest();
+  const derive = (info: string) =>
+    Buffer.from(crypto.hkdfSync("sha256", sharedSecret, salt, info, 32));
+
+  return {
+    clientToServer: derive("secure-messaging client->server"),
+    serverToClient: derive("secure-messaging server->client"),
+  };
 }
 
 /**
@@ -31,11 +72,17 @@ export function computeSharedSecret(
  *
  * @param message - The message to be encrypted
  * @param sharedSecret - The shared secret key used for encryption
+ * @param associatedData - Optional data that is authenticated but not encrypted (AAD)
  * @returns An object containing the encrypted message, IV (Initialization Vector), and authentication tag
  */
-export function encryptAES(message: string, sharedSecret: Buffer) {
+export function encryptAES(
+  message: string,
+  sharedSecret: Buffer,
+  associatedData?: Buffer
+) {
   const iv = crypto.randomBytes(16); // Generate a random 16-byte initialization vector (IV)
   const cipher = crypto.createCipheriv("aes-256-gcm", sharedSecret, iv); // Create an AES cipher in GCM mode
+  if (associatedData) cipher.setAAD(associatedData); // Authenticate the associated data
   let encrypted = cipher.update(message, "utf8", "base64"); // Encrypt the message
   encrypted += cipher.final("base64"); // Finalize encryption
   const authTag = cipher.getAuthTag().toString("base64"); // Get the authentication tag for integrity verification
@@ -51,13 +98,15 @@ export function encryptAES(message: string, sharedSecret: Buffer) {
  * @param iv - The initialization vector (IV) used for encryption, in base64 format
  * @param authTag - The authentication tag used for integrity verification, in base64 format
  * @param sharedSecret - The shared secret key used for decryption
+ * @param associatedData - Optional data that was authenticated alongside the message (AAD)
  * @returns The decrypted message in plaintext
  */
 export function decryptAES(
   encryptedMsg: string,
   iv: string,
   authTag: string,
-  sharedSecret: Buffer
+  sharedSecret: Buffer,
+  associatedData?: Buffer
 ): string {
   // Create the decipher object with AES-256-GCM mode and the provided shared secret and IV
   const decipher = crypto.createDecipheriv(
@@ -66,11 +115,27 @@ export function decryptAES(
     Buffer.from(iv, "base64") // Convert IV from base64 to buffer
   );
   decipher.setAuthTag(Buffer.from(authTag, "base64")); // Set the authentication tag for integrity check
+  if (associatedData) decipher.setAAD(associatedData); // Must match what the sender authenticated
   let decrypted = decipher.update(encryptedMsg, "base64", "utf8"); // Decrypt the encrypted message
   decrypted += decipher.final("utf8"); // Finalize decryption
   return decrypted; // Return the decrypted message
 }
 
+/**
+ * Builds the associated data (AAD) that AES-GCM authenticates alongside an encrypted frame.
+ * It covers the envelope fields that travel in the clear, so a frame cannot be
+ * replayed into another position or key epoch without failing the authentication check.
+ *
+ * @param frame - The envelope whose key epoch and sequence number are bound
+ * @returns The associated data as a Buffer
+ */
+export function getAssociatedData(frame: SecureFrame): Buffer {
+  return Buffer.from(
+    JSON.stringify([frame.type, frame.keyEpoch, frame.seq]),
+    "utf8"
+  );
+}
+
 /**
  * Verifies the integrity of a public key using a digital certificate.
  *
@@ -0,0 +1,144 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { HistoryEntry } from "../types";
+import { decryptAES, encryptAES } from "./encryption";
+
+/**
+ * Loads the key the server encrypts stored history with, creating it on first run.
+ * The key file is written with owner-only permissions.
+ *
+ * @param keyPath - Path to the raw 32-byte key file
+ * @returns The storage key
+ */
+export function loadOrCreateStorageKey(keyPath: string): Buffer {
+  if (fs.existsSync(keyPath)) {
+    return fs.readFileSync(keyPath);
+  }
+
+  const key = crypto.randomBytes(32);
+  fs.mkdirSync(path.dirname(keyPath), { recursive: true, mode: 0o700 });
+  fs.writeFileSync(keyPath, key, { mode: 0o600 });
+  return key;
+}
+
+/**
+ * Builds the path of a room's history file inside the history directory.
+ *
+ * @param historyDir - Directory holding the history files
+ * @param room - The room name, starting with "#"
+ * @returns The file path
+ */
+export function getHistoryPath(historyDir: string, room: string): string {
+  return path.join(historyDir, `${room.slice(1)}.log`);
+}
+
+/**
+ * Loads a room's history from disk. Each line is one entry encrypted with the
+ * storage key, bound to the room name so entries cannot be moved between rooms.
+ * Lines that fail to decrypt are skipped.
+ *
+ * @param filePath - Path to the room's history file
+ * @param room - The room name
+ * @param storageKey - The storage key
+ * @returns The entries, oldest first (empty if the file does not exist)
+ */
+export function loadHistory(
+  filePath: string,
+  room: string,
+  storageKey: Buffer
+): HistoryEntry[] {
+  if (!fs.existsSync(filePath)) return [];
+
+  const entries: HistoryEntry[] = [];
+  fs.readFileSync(filePath, "utf8")
+    .split("\n")
+    .filter(Boolean)
+    .forEach((line) => {
+      try {
+        const record = JSON.parse(line);
+        entries.push(
+          JSON.parse(
+            decryptAES(
+              record.content,
+              record.iv,
+              record.authTag,
+              storageKey,
+              Buffer.from(room, "utf8")
+            )
+          )
+        );
+      } catch {
+        // A damaged or foreign line; the rest of the history is still usable
+      }
+    });
+  return entries;
+}
+
+/**
+ * Writes a room's history to disk, encrypting every entry with the storage key.
+ * The file is written to a temporary path first and then renamed.
+ *
+ * @param filePath - Path to the room's history file
+ * @param room - The room name
+ * @param entries - The entries to store
+ * @param storageKey - The storage key
+ */
+export function saveHistory(
+  filePath: string,
+  room: string,
+  entries: HistoryEntry[],
+  storageKey: Buffer
+): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o700 });
+
+  const lines = entries.map((entry) => {
+    const { encrypted, iv, authTag } = encryptAES(
+      JSON.stringify(entry),
+      storageKey,
+      Buffer.from(room, "utf8")
+    );
+    return JSON.stringify({ content: encrypted, iv, authTag });
+  });
+
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, lines.map((line) => `${line}\n`).join(""), {
+    mode: 0o600,
+  });
+  fs.renameSync(tempPath, filePath);
+}
+
+/**
+ * Drops the entries that are over the retention limits.
+ *
+ * @param entries - The entries, oldest first
+ * @param limit - Most entries to keep
+ * @param maxAgeDays - Oldest entry to keep, in days (0 for no age limit)
+ * @returns The entries that are kept
+ */
+export function pruneHistory(
+  entries: HistoryEntry[],
+  limit: number,
+  maxAgeDays: number
+): HistoryEntry[] {
+  const cutoff =
+    maxAgeDays > 0 ? Date.now() - maxAgeDays * 24 * 60 * 60 * 1000 : 0;
+  const recent = entries.filter((entry) => entry.storedAt >= cutoff);
+  return limit > 0 ? recent.slice(-limit) : [];
+}
+
+/**
+ * Reads the room key epoch from a message's room-key ciphertext.
+ * The rest of the ciphertext is opaque to the server.
+ *
+ * @param content - The message content as sent by the client
+ * @returns The epoch, or null if the content is not a room-key ciphertext
+ */
+export function getCiphertextEpoch(content: string): number | null {
+  try {
+    const { epoch } = JSON.parse(content);
+    return Number.isInteger(epoch) ? epoch : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,67 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { ServerIdentity } from "../types";
+
+/**
+ * Computes the fingerprint of a public key in the same style as OpenSSH:
+ * `SHA256:` followed by the unpadded base64 SHA-256 digest of the DER-encoded key.
+ *
+ * @param publicKeyPem - The public key in PEM format
+ * @returns The fingerprint string
+ */
+export function getKeyFingerprint(publicKeyPem: string): string {
+  const der = crypto
+    .createPublicKey(publicKeyPem)
+    .export({ type: "spki", format: "der" });
+  const digest = crypto.createHash("sha256").update(der).digest("base64");
+  return `SHA256:${digest.replace(/=+$/, "")}`;
+}
+
+/**
+ * Loads the server's Ed25519 identity key from disk, creating it on first run.
+ * The private key file is written with owner-only permissions.
+ *
+ * @param keyPath - Path to the PEM-encoded private key file
+ * @returns The server identity
+ */
+export function loadOrCreateIdentity(keyPath: string): ServerIdentity {
+  let privateKey: crypto.KeyObject;
+
+  if (fs.existsSync(keyPath)) {
+    privateKey = crypto.createPrivateKey(fs.readFileSync(keyPath, "utf8"));
+    if (privateKey.asymmetricKeyType !== "ed25519") {
+      throw new Error(`Identity key at ${keyPath} is not an Ed25519 key`);
+    }
+  } else {
+    privateKey = crypto.generateKeyPairSync("ed25519").privateKey;
+    fs.mkdirSync(path.dirname(keyPath), { recursive: true, mode: 0o700 });
+    fs.writeFileSync(
+      keyPath,
+      privateKey.export({ type: "pkcs8", format: "pem" }) as string,
+      { mode: 0o600 }
+    );
+  }
+
+  const publicKey = crypto
+    .createPublicKey(privateKey)
+    .export({ type: "spki", format: "pem" }) as string;
+
+  return { publicKey, privateKey, fingerprint: getKeyFingerprint(publicKey) };
+}
+
+/**
+ * Signs the key exchange with the server identity so the client can detect impersonation.
+ *
+ * @param identity - The server identity
+ * @param transcript - The key exchange transcript to sign
+ * @returns The signature in base64 format
+ */
+export function signKeyExchange(
+  identity: ServerIdentity,
+  transcript: string
+): string {
+  return crypto
+    .sign(null, Buffer.from(transcript, "utf8"), identity.privateKey)
+    .toString("base64");
+}
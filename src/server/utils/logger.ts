@@ -0,0 +1,23 @@
+import * as fs from "fs";
+
+/**
+ * Appends an error to the server's error log file.
+ *
+ * @param message - The error description
+ */
+export function logError(message: string): void {
+  const timestamp = new Date().toISOString();
+  fs.appendFileSync("server-errors.log", `[${timestamp}] ${message}\n`);
+}
+
+/**
+ * Records a security event (replayed, reordered or tampered frames, and similar)
+ * in the server's security log and echoes it to the console.
+ *
+ * @param message - The event description
+ */
+export function logSecurityEvent(message: string): void {
+  const timestamp = new Date().toISOString();
+  console.warn(`[SECURITY] ${message}`);
+  fs.appendFileSync("server-security.log", `[${timestamp}] ${message}\n`);
+}
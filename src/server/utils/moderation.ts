@@ -0,0 +1,108 @@
+import * as fs from "fs";
+import * as net from "net";
+import * as path from "path";
+import { Ban } from "../types";
+
+// Units accepted in mute durations, in milliseconds
+const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Loads the ban list from disk.
+ *
+ * @param filePath - Path to the JSON ban file
+ * @returns The bans, or an empty list if the file does not exist yet
+ */
+export function loadBans(filePath: string): Ban[] {
+  if (!fs.existsSync(filePath)) return [];
+  return JSON.parse(fs.readFileSync(filePath, "utf8"));
+}
+
+/**
+ * Writes the ban list to disk with owner-only permissions, through a temporary
+ * file so a crash mid-write never loses the existing bans.
+ *
+ * @param filePath - Path to the JSON ban file
+ * @param bans - The bans to store
+ */
+export function saveBans(filePath: string, bans: Ban[]): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o700 });
+
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(bans, null, 2), { mode: 0o600 });
+  fs.renameSync(tempPath, filePath);
+}
+
+/**
+ * Works out what a ban target is: a key fingerprint (`SHA256:...`), an IP address,
+ * or otherwise a username.
+ *
+ * @param target - The target as typed by the moderator
+ * @returns The kind of ban and the value to store
+ */
+export function getBanTarget(target: string): Pick<Ban, "type" | "value"> {
+  if (target.startsWith("SHA256:")) {
+    return { type: "fingerprint", value: target };
+  }
+  if (net.isIP(target)) {
+    return { type: "ip", value: normalizeAddress(target) };
+  }
+  return { type: "username", value: target.toLowerCase() };
+}
+
+/**
+ * Finds the ban, if any, that matches a connection. Only the details given are
+ * checked, so the IP can be checked as soon as a socket connects and the username
+ * and key once the client has introduced itself.
+ *
+ * @param bans - The ban list
+ * @param details - The connection's IP address, username and key fingerprint
+ * @returns The matching ban, or undefined
+ */
+export function findBan(
+  bans: Ban[],
+  details: { ip?: string; username?: string; fingerprint?: string }
+): Ban | undefined {
+  const candidates: Record<Ban["type"], string | undefined> = {
+    ip: details.ip && normalizeAddress(details.ip),
+    username: details.username && details.username.toLowerCase(),
+    fingerprint: details.fingerprint,
+  };
+  return bans.find((ban) => candidates[ban.type] === ban.value);
+}
+
+/**
+ * Parses a duration such as `30s`, `10m`, `2h` or `1d` (minutes if no unit is given).
+ *
+ * @param text - The duration as typed
+ * @returns The duration in milliseconds, or null if it is not a valid duration
+ */
+export function parseDuration(text: string): number | null {
+  const match = /^(\d+)([smhd]?)$/i.exec(text);
+  if (!match || Number(match[1]) === 0) return null;
+  return Number(match[1]) * DURATION_UNITS[(match[2] || "m").toLowerCase()];
+}
+
+/**
+ * Formats a duration for notices, rounded up to whole minutes, hours or days.
+ *
+ * @param milliseconds - The duration
+ * @returns The duration as text, e.g. "5m" or "2h"
+ */
+export function formatDuration(milliseconds: number): string {
+  // Round up to whole seconds first, so 59.9 seconds reads as 1m rather than 60s
+  const rounded = Math.ceil(milliseconds / 1000) * 1000;
+  const units = Object.entries(DURATION_UNITS).reverse();
+  const [unit, size] =
+    units.find(([, size]) => rounded >= size) || units[units.length - 1];
+  return `${Math.ceil(rounded / size)}${unit}`;
+}
+
+// IPv4 clients show up as IPv4-mapped IPv6 addresses on dual-stack sockets
+function normalizeAddress(address: string): string {
+  return address.replace(/^::ffff:/i, "");
+}
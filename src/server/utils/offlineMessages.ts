@@ -0,0 +1,99 @@
+import * as fs from "fs";
+import * as path from "path";
+import { QueuedMessage } from "../types";
+import { decryptAES, encryptAES } from "./encryption";
+
+// Associated data binding the queue file's contents to its purpose
+const QUEUE_ASSOCIATED_DATA = Buffer.from("offline messages", "utf8");
+
+/**
+ * Loads the queue of direct messages waiting for offline users.
+ * The file is a single blob encrypted with the server's storage key.
+ *
+ * @param filePath - Path to the queue file
+ * @param storageKey - The storage key
+ * @returns The queued messages, keyed by lower-cased recipient (empty if there is no file)
+ */
+export function loadOfflineMessages(
+  filePath: string,
+  storageKey: Buffer
+): Map<string, QueuedMessage[]> {
+  const queues: Map<string, QueuedMessage[]> = new Map();
+  if (!fs.existsSync(filePath)) return queues;
+
+  const record = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  const stored: QueuedMessage[] = JSON.parse(
+    decryptAES(
+      record.content,
+      record.iv,
+      record.authTag,
+      storageKey,
+      QUEUE_ASSOCIATED_DATA
+    )
+  );
+  stored.forEach((queued) => {
+    const recipient = queued.recipient.toLowerCase();
+    queues.set(recipient, [...(queues.get(recipient) || []), queued]);
+  });
+  return queues;
+}
+
+/**
+ * Writes the offline message queue to disk, encrypted with the storage key.
+ * The file is written to a temporary path first and then renamed.
+ *
+ * @param filePath - Path to the queue file
+ * @param queues - The queued messages, keyed by lower-cased recipient
+ * @param storageKey - The storage key
+ */
+export function saveOfflineMessages(
+  filePath: string,
+  queues: Map<string, QueuedMessage[]>,
+  storageKey: Buffer
+): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o700 });
+
+  const stored = Array.from(queues.values()).flat();
+  const { encrypted, iv, authTag } = encryptAES(
+    JSON.stringify(stored),
+    storageKey,
+    QUEUE_ASSOCIATED_DATA
+  );
+
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(
+    tempPath,
+    JSON.stringify({ content: encrypted, iv, authTag }),
+    { mode: 0o600 }
+  );
+  fs.renameSync(tempPath, filePath);
+}
+
+/**
+ * Drops queued messages older than the age limit from every queue, and the
+ * queues that end up empty. Queues are otherwise only pruned when their
+ * recipient logs in, which accounts that never return would not do.
+ *
+ * @param queues - The queued messages, keyed by lower-cased recipient; changed in place
+ * @param maxAgeDays - Oldest message to keep, in days (0 for no age limit)
+ * @returns How many messages were dropped
+ */
+export function pruneOfflineMessages(
+  queues: Map<string, QueuedMessage[]>,
+  maxAgeDays: number
+): number {
+  if (maxAgeDays <= 0) return 0;
+
+  const cutoff = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+  let dropped = 0;
+  queues.forEach((queue, recipient) => {
+    const kept = queue.filter((queued) => queued.queuedAt >= cutoff);
+    dropped += queue.length - kept.length;
+    if (kept.length === 0) {
+      queues.delete(recipient);
+    } else {
+      queues.set(recipient, kept);
+    }
+  });
+  return dropped;
+}
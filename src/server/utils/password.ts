@@ -0,0 +1,230 @@
+import * as crypto from "crypto";
+import { AuthChallenge, PasswordVerifier } from "../types";
+
+// scrypt cost parameters for new verifiers (N = 2^14, about 16 MB of memory per hash)
+const SCRYPT_COST = 16384;
+const SCRYPT_BLOCK_SIZE = 8;
+const SCRYPT_PARALLELIZATION = 1;
+
+// Upper bounds on the scrypt parameters of verifiers made elsewhere. Memory grows with
+// N * r (N = 2^20 with r = 8 is about 1 GB) and time with N * r * p
+const MAX_SCRYPT_MEMORY_FACTOR = 1048576 * 8; // Largest N * r
+const MAX_SCRYPT_BLOCK_SIZE = 16;
+const MAX_SCRYPT_PARALLELIZATION = 4;
+
+const hmac = (key: Buffer, data: string | Buffer): Buffer =>
+  crypto.createHmac("sha256", key).update(data).digest();
+
+/**
+ * Creates a SCRAM-style verifier for a password. Only the salt, the scrypt parameters and
+ * two keys derived from the salted password are kept; the password itself cannot be
+ * recovered from them without a brute-force search through scrypt.
+ *
+ * @param password - The password to create a verifier for
+ * @returns The verifier
+ */
+export function createPasswordVerifier(password: string): PasswordVerifier {
+  const salt = crypto.randomBytes(16);
+  const saltedPassword = crypto.scryptSync(password, salt, 32, {
+    N: SCRYPT_COST,
+    r: SCRYPT_BLOCK_SIZE,
+    p: SCRYPT_PARALLELIZATION,
+  });
+
+  const verifier: PasswordVerifier = {
+    salt,
+    cost: SCRYPT_COST,
+    blockSize: SCRYPT_BLOCK_SIZE,
+    parallelization: SCRYPT_PARALLELIZATION,
+    storedKey: crypto
+      .createHash("sha256")
+      .update(hmac(saltedPassword, "Client Key"))
+      .digest(),
+    serverKey: hmac(saltedPassword, "Server Key"),
+  };
+  saltedPassword.fill(0);
+
+  return verifier;
+}
+
+/**
+ * Encodes a verifier as a single string for the config file:
+ * `scrypt$N$r$p$salt$storedKey$serverKey`, with the binary parts in base64.
+ *
+ * @param verifier - The verifier to encode
+ * @returns The encoded verifier
+ */
+export function encodePasswordVerifier(verifier: PasswordVerifier): string {
+  return [
+    "scrypt",
+    verifier.cost,
+    verifier.blockSize,
+    verifier.parallelization,
+    verifier.salt.toString("base64"),
+    verifier.storedKey.toString("base64"),
+    verifier.serverKey.toString("base64"),
+  ].join("$");
+}
+
+/**
+ * Parses a verifier that was encoded with `encodePasswordVerifier`.
+ *
+ * @param encoded - The encoded verifier
+ * @returns The verifier
+ */
+export function parsePasswordVerifier(encoded: string): PasswordVerifier {
+  const [scheme, cost, blockSize, parallelization, salt, storedKey, serverKey] =
+    encoded.split("$");
+  if (scheme !== "scrypt" || !serverKey) {
+    throw new Error(
+      "Password verifier is not in scrypt$N$r$p$salt$storedKey$serverKey format"
+    );
+  }
+
+  return {
+    salt: Buffer.from(salt, "base64"),
+    cost: parseInt(cost, 10),
+    blockSize: parseInt(blockSize, 10),
+    parallelization: parseInt(parallelization, 10),
+    storedKey: Buffer.from(storedKey, "base64"),
+    serverKey: Buffer.from(serverKey, "base64"),
+  };
+}
+
+/**
+ * Creates the challenge the client needs to prove it knows the password:
+ * the salt and scrypt parameters, plus a fresh server nonce so proofs cannot be replayed.
+ *
+ * @param verifier - The verifier of the expected password
+ * @returns The challenge
+ */
+export function createAuthChallenge(verifier: PasswordVerifier): AuthChallenge {
+  return {
+    salt: verifier.salt.toString("base64"),
+    cost: verifier.cost,
+    blockSize: verifier.blockSize,
+    parallelization: verifier.parallelization,
+    nonce: crypto.randomBytes(24).toString("base64"),
+  };
+}
+
+/**
+ * Builds the message both sides sign during login. It binds the proof to this user and
+ * to both nonces, so it is only valid for this one exchange.
+ *
+ * @param username - The username logging in
+ * @param serverNonce - The nonce from the server's challenge
+ * @param clientNonce - The nonce chosen by the client
+ * @returns The auth message
+ */
+export function getAuthMessage(
+  username: string,
+  serverNonce: string,
+  clientNonce: string
+): Buffer {
+  return Buffer.from(
+    JSON.stringify([username, serverNonce, clientNonce]),
+    "utf8"
+  );
+}
+
+/**
+ * Checks a client's proof: XOR-ing it with the client signature must give a key whose
+ * hash is the stored key. The comparison is constant-time.
+ *
+ * @param verifier - The verifier of the expected password
+ * @param authMessage - The auth message for this exchange
+ * @param proofBase64 - The client proof in base64 format
+ * @returns True if the client knows the password, false otherwise
+ */
+export function verifyClientProof(
+  verifier: PasswordVerifier,
+  authMessage: Buffer,
+  proofBase64: string
+): boolean {
+  const proof = Buffer.from(proofBase64, "base64");
+  if (proof.length !== verifier.storedKey.length) return false;
+
+  const clientSignature = hmac(verifier.storedKey, authMessage);
+  const clientKey = Buffer.alloc(proof.length);
+  for (let i = 0; i < proof.length; i++) {
+    clientKey[i] = proof[i] ^ clientSignature[i];
+  }
+
+  const storedKey = crypto.createHash("sha256").update(clientKey).digest();
+  return crypto.timingSafeEqual(storedKey, verifier.storedKey);
+}
+
+/**
+ * Computes the server signature that proves to the client that the server holds the
+ * verifier, so a server that does not know the password cannot fake a successful login.
+ *
+ * @param verifier - The verifier of the expected password
+ * @param authMessage - The auth message for this exchange
+ * @returns The server signature in base64 format
+ */
+export function computeServerSignature(
+  verifier: PasswordVerifier,
+  authMessage: Buffer
+): string {
+  return hmac(verifier.serverKey, authMessage).toString("base64");
+}
+
+/**
+ * Checks that a verifier sent by a client is well-formed and was made with at least
+ * the server's own scrypt cost, so accounts cannot be registered with weak verifiers,
+ * and at most a cost every login can afford.
+ *
+ * @param verifier - The verifier to check
+ * @returns True if the verifier is acceptable, false otherwise
+ */
+export function isAcceptableVerifier(verifier: PasswordVerifier): boolean {
+  return (
+    verifier.cost >= SCRYPT_COST &&
+    verifier.blockSize >= SCRYPT_BLOCK_SIZE &&
+    verifier.blockSize <= MAX_SCRYPT_BLOCK_SIZE &&
+    verifier.cost * verifier.blockSize <= MAX_SCRYPT_MEMORY_FACTOR && // Keep logins affordable for the client
+    verifier.parallelization >= 1 &&
+    verifier.parallelization <= MAX_SCRYPT_PARALLELIZATION &&
+    verifier.salt.length >= 16 &&
+    verifier.storedKey.length === 32 &&
+    verifier.serverKey.length === 32
+  );
+}
+
+/**
+ * Checks a password the server has received directly (such as a room password) against a
+ * verifier by repeating the scrypt derivation. The derivation runs off the event loop so
+ * other clients are not held up, and the comparison is constant-time.
+ *
+ * @param verifier - The verifier of the expected password
+ * @param password - The password to check
+ * @returns True if the password matches, false otherwise
+ */
+export async function verifyPassword(
+  verifier: PasswordVerifier,
+  password: string
+): Promise<boolean> {
+  if (!isAcceptableVerifier(verifier)) return false; // Could tie up scrypt for minutes
+
+  const saltedPassword = await new Promise<Buffer>((resolve, reject) =>
+    crypto.scrypt(
+      password,
+      verifier.salt,
+      32,
+      {
+        N: verifier.cost,
+        r: verifier.blockSize,
+        p: verifier.parallelization,
+      },
+      (error, key) => (error ? reject(error) : resolve(key))
+    )
+  );
+  const storedKey = crypto
+    .createHash("sha256")
+    .update(hmac(saltedPassword, "Client Key"))
+    .digest();
+  saltedPassword.fill(0);
+
+  return crypto.timingSafeEqual(storedKey, verifier.storedKey);
+}
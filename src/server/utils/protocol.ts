@@ -0,0 +1,67 @@
+import { Message, ProtocolFeature, SessionParameters } from "../types";
+
+// Version of the wire protocol, bumped whenever Message or the crypto scheme
+// changes in a way older builds cannot follow
+export const PROTOCOL_VERSION = 3;
+
+// Cipher suites this build can run, most preferred first
+export const CIPHER_SUITES = ["x25519-hkdf-sha256-aes-256-gcm"];
+
+/**
+ * Works out the session parameters from a client's hello: the first cipher
+ * suite the client offers that the server supports, and the features both
+ * sides support.
+ *
+ * @param hello - The client's hello message
+ * @param serverFeatures - Features the server offers with its current settings
+ * @returns The agreed cipher suite and features
+ * @throws Error with a message for the user if the versions differ or no cipher suite is shared
+ */
+export function negotiateSession(
+  hello: Message,
+  serverFeatures: ProtocolFeature[]
+): SessionParameters {
+  const clientVersion = hello.protocolVersion;
+  if (clientVersion !== PROTOCOL_VERSION) {
+    throw new Error(
+      typeof clientVersion === "number" && clientVersion > PROTOCOL_VERSION
+        ? `This server speaks protocol version ${PROTOCOL_VERSION}, but your client speaks version ${clientVersion}. Ask the server's operator to upgrade, or use an older client.`
+        : `This server speaks protocol version ${PROTOCOL_VERSION}, but your client speaks version ${
+            clientVersion ?? 1
+          }. Please upgrade your client.`
+    );
+  }
+
+  const cipherSuite = (hello.cipherSuites || []).find((suite) =>
+    CIPHER_SUITES.includes(suite)
+  );
+  if (!cipherSuite) {
+    throw new Error(
+      `Your client and this server have no cipher suite in common. The server supports: ${CIPHER_SUITES.join(
+        ", "
+      )}.`
+    );
+  }
+
+  return {
+    cipherSuite,
+    features: serverFeatures.filter((feature) =>
+      (hello.features || []).includes(feature)
+    ),
+  };
+}
+
+/**
+ * Describes the agreed session parameters for the key exchange transcript, so
+ * a man-in-the-middle cannot quietly downgrade them in the plaintext hello.
+ *
+ * @param session - The agreed session parameters
+ * @returns The version, cipher suite and features as one line
+ */
+export function describeSession(session: SessionParameters): string {
+  return [
+    PROTOCOL_VERSION,
+    session.cipherSuite,
+    [...session.features].sort().join(","),
+  ].join(";");
+}
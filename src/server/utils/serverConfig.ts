@@ -1,5 +1,29 @@
 import { isPortInUse } from "./port";
 import * as readline from "readline";
+import * as fs from "fs";
+import { ServerSettings } from "../types";
+
+// Settings used when the config file is missing or leaves a value out
+export const DEFAULT_SERVER_SETTINGS: ServerSettings = {
+  dataDir: "data",
+  rekeyAfterMessages: 10000,
+  rekeyAfterMinutes: 60,
+  authMode: "password",
+  historyLimit: 100,
+  historyMaxAgeDays: 7,
+  historyOnJoin: 20,
+  offlineQueueLimit: 50,
+  offlineMessageMaxAgeDays: 7,
+  maxFileSize: 5 * 1024 * 1024,
+  heartbeatIntervalSeconds: 30,
+  heartbeatTimeoutSeconds: 90,
+  handshakeTimeoutSeconds: 10,
+  loginTimeoutSeconds: 60,
+  maxPendingConnections: 50,
+  maxFrameSize: 1024 * 1024,
+  binaryFraming: true,
+  admins: [],
+};
 
 function promptUser(rl: readline.Interface, question: string): Promise<string> {
   return new Promise((resolve) => {
@@ -7,9 +31,28 @@ function promptUser(rl: readline.Interface, question: string): Promise<string> {
   });
 }
 
+/**
+ * Loads server settings from a JSON config file, if one exists.
+ * Values missing from the file are taken from `DEFAULT_SERVER_SETTINGS`.
+ *
+ * @param configPath - Path to the JSON config file
+ * @returns The merged server settings
+ */
+export function loadServerSettings(
+  configPath: string = "server-config.json"
+): ServerSettings {
+  if (!fs.existsSync(configPath)) {
+    return { ...DEFAULT_SERVER_SETTINGS };
+  }
+
+  const fileSettings = JSON.parse(fs.readFileSync(configPath, "utf8"));
+  return { ...DEFAULT_SERVER_SETTINGS, ...fileSettings };
+}
+
 export async function getServerConfig(): Promise<{
   port: number;
   password?: string;
+  settings: ServerSettings;
 }> {
   const rl = readline.createInterface({
     input: process.stdin,
@@ -31,11 +74,17 @@ export async function getServerConfig(): Promise<{
     throw new Error("Port in use");
   }
 
-  const password = await promptUser(
-    rl,
-    "Set server password (leave blank for none): "
-  );
+  // A password verifier in the config file, or public-key login, replaces the password prompt
+  const settings = loadServerSettings();
+  const password =
+    settings.passwordVerifier || settings.authMode === "publicKey"
+      ? ""
+      : await promptUser(rl, "Set server password (leave blank for none): ");
   rl.close();
 
-  return { port, password: password || undefined };
+  return {
+    port,
+    password: password || undefined,
+    settings,
+  };
 }
@@ -0,0 +1,19 @@
+// Letters, digits, dots, dashes and underscores: nothing a terminal could
+// interpret, and nothing that could pass for a system notice
+const USERNAME_PATTERN = /^[A-Za-z0-9_.-]{1,32}$/;
+
+// Explains the rule to users whose name breaks it
+export const USERNAME_RULES =
+  "Usernames are 1 to 32 letters, digits, dots, dashes or underscores.";
+
+/**
+ * Checks that a username is safe to show on everyone's terminal. Control
+ * characters, newlines and escape sequences would let a user fake system
+ * notices or other users' lines.
+ *
+ * @param username - The username to check
+ * @returns True if the username is allowed
+ */
+export function isValidUsername(username: string): boolean {
+  return typeof username === "string" && USERNAME_PATTERN.test(username);
+}